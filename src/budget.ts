@@ -0,0 +1,100 @@
+import { Chat, Query } from "objectiveai";
+import { BudgetExceededError } from "./errors.js";
+
+export type ObjectiveAIBudgetRequest =
+  | Query.Completions.Request.ChatCompletionCreateParamsNonStreaming
+  | Query.Completions.Request.ChatCompletionCreateParamsStreaming
+  | Chat.Completions.Request.ChatCompletionCreateParamsNonStreaming
+  | Chat.Completions.Request.ChatCompletionCreateParamsStreaming;
+
+export interface ObjectiveAIBudgetFields {
+  // maximum cumulative cost of every call made with the budget
+  max_cost: number;
+  // estimates the cost of a request, or returns undefined if it can't
+  estimate_cost?: (request: ObjectiveAIBudgetRequest) => number | undefined;
+}
+
+// a cost budget shared by every call it is passed to, through the model
+// constructor or the call options
+// every request reserves its estimated cost until it is recorded, so that
+// concurrent calls cannot go over the budget together, and a request whose
+// cost cannot be estimated reserves the whole remaining budget, so that it is
+// made alone
+export class ObjectiveAIBudget {
+  max_cost: number;
+
+  spent = 0;
+
+  // cost reserved by the requests in flight
+  reserved = 0;
+
+  estimate_cost?: (request: ObjectiveAIBudgetRequest) => number | undefined;
+
+  // requests waiting for reserved costs to be recorded
+  protected waiting: (() => void)[] = [];
+
+  constructor(fields: ObjectiveAIBudgetFields) {
+    this.max_cost = fields.max_cost;
+    this.estimate_cost = fields.estimate_cost;
+  }
+
+  get remaining(): number {
+    return Math.max(this.max_cost - this.spent, 0);
+  }
+
+  // refuses a request if the budget is spent, or if its estimated cost
+  // would go over the budget
+  check(request: ObjectiveAIBudgetRequest): void {
+    if (this.spent >= this.max_cost) {
+      throw new BudgetExceededError(
+        `ObjectiveAI budget of ${this.max_cost} is spent: ${this.spent}.`,
+        { max_cost: this.max_cost, spent: this.spent }
+      );
+    }
+    const estimated_cost = this.estimate_cost?.(request);
+    if (
+      estimated_cost !== undefined &&
+      this.spent + estimated_cost > this.max_cost
+    ) {
+      throw new BudgetExceededError(
+        `ObjectiveAI request estimated to cost ${estimated_cost} would go over the remaining budget of ${this.remaining}.`,
+        { max_cost: this.max_cost, spent: this.spent, estimated_cost }
+      );
+    }
+  }
+
+  // checks a request and reserves its cost, waiting for the requests in
+  // flight to be recorded while it does not fit beside them
+  // resolves to the reservation, to be passed to record
+  async reserve(request: ObjectiveAIBudgetRequest): Promise<number> {
+    for (;;) {
+      this.check(request);
+      const reservation = this.estimate_cost?.(request) ?? this.remaining;
+      if (
+        this.reserved === 0 ||
+        this.spent + this.reserved + reservation <= this.max_cost
+      ) {
+        this.reserved += reservation;
+        return reservation;
+      }
+      await new Promise<void>((resolve) => {
+        this.waiting.push(resolve);
+      });
+    }
+  }
+
+  // records the cost of a finished request, undefined if unknown or if the
+  // request failed, and frees its reservation
+  // a request that goes over the budget still returns, as it was paid for,
+  // and the next request is refused by check
+  record(cost: number | undefined, reservation = 0): void {
+    this.spent += cost ?? 0;
+    this.reserved = Math.max(this.reserved - reservation, 0);
+    // waiting requests check the budget again
+    const { waiting } = this;
+    this.waiting = [];
+    for (const resolve of waiting) {
+      resolve();
+    }
+  }
+}
@@ -0,0 +1,181 @@
+import { Serializable } from "@langchain/core/load/serializable";
+import { ObjectiveAIError } from "./errors.js";
+import { QueryObjectiveAICalibrator } from "./output_parser.js";
+
+// a confidence, and whether the output it was given to was correct
+export interface QueryObjectiveAICalibrationSample {
+  confidence: number;
+  correct: boolean;
+}
+
+const EPSILON = 1e-6;
+
+function clampProbability(p: number): number {
+  return Math.min(1 - EPSILON, Math.max(EPSILON, p));
+}
+
+function logit(p: number): number {
+  const clamped = clampProbability(p);
+  return Math.log(clamped / (1 - clamped));
+}
+
+function sigmoid(x: number): number {
+  return 1 / (1 + Math.exp(-x));
+}
+
+function assertSamples(samples: QueryObjectiveAICalibrationSample[]): void {
+  if (samples.length === 0) {
+    throw new ObjectiveAIError("Fitting a calibrator requires samples.");
+  }
+}
+
+export interface QueryObjectiveAITemperatureCalibratorFields {
+  temperature: number;
+}
+
+// rescales confidences to sigmoid(logit(confidence) / temperature)
+// temperatures above 1 soften overconfident outputs, below 1 sharpen them
+export class QueryObjectiveAITemperatureCalibrator
+  extends Serializable
+  implements QueryObjectiveAICalibrator
+{
+  static lc_name() {
+    return "QueryObjectiveAITemperatureCalibrator";
+  }
+
+  lc_serializable = true;
+
+  lc_namespace = ["langchain", "calibration", "objectiveai"];
+
+  temperature: number;
+
+  constructor(fields: QueryObjectiveAITemperatureCalibratorFields) {
+    super(fields);
+    if (!(fields.temperature > 0)) {
+      throw new ObjectiveAIError(
+        `Calibration temperature must be positive, got ${fields.temperature}.`
+      );
+    }
+    this.temperature = fields.temperature;
+  }
+
+  calibrate(confidence: number): number {
+    return sigmoid(logit(confidence) / this.temperature);
+  }
+
+  // the temperature minimizing the negative log likelihood of the samples,
+  // found by golden-section search
+  static fit(
+    samples: QueryObjectiveAICalibrationSample[]
+  ): QueryObjectiveAITemperatureCalibrator {
+    assertSamples(samples);
+    const nll = (logTemperature: number) => {
+      const temperature = Math.exp(logTemperature);
+      return samples.reduce((sum, { confidence, correct }) => {
+        const p = clampProbability(sigmoid(logit(confidence) / temperature));
+        return sum - Math.log(correct ? p : 1 - p);
+      }, 0);
+    };
+    const ratio = (Math.sqrt(5) - 1) / 2;
+    let lower = Math.log(0.05);
+    let upper = Math.log(20);
+    for (let i = 0; i < 100; i += 1) {
+      const a = upper - ratio * (upper - lower);
+      const b = lower + ratio * (upper - lower);
+      if (nll(a) < nll(b)) {
+        upper = b;
+      } else {
+        lower = a;
+      }
+    }
+    return new QueryObjectiveAITemperatureCalibrator({
+      temperature: Math.exp((lower + upper) / 2),
+    });
+  }
+}
+
+export interface QueryObjectiveAIIsotonicCalibratorFields {
+  // increasing confidences, and the calibrated confidence at each of them
+  confidences: number[];
+  values: number[];
+}
+
+// rescales confidences with a non-decreasing step function, linearly
+// interpolated between its steps
+export class QueryObjectiveAIIsotonicCalibrator
+  extends Serializable
+  implements QueryObjectiveAICalibrator
+{
+  static lc_name() {
+    return "QueryObjectiveAIIsotonicCalibrator";
+  }
+
+  lc_serializable = true;
+
+  lc_namespace = ["langchain", "calibration", "objectiveai"];
+
+  confidences: number[];
+
+  values: number[];
+
+  constructor(fields: QueryObjectiveAIIsotonicCalibratorFields) {
+    super(fields);
+    if (
+      fields.confidences.length === 0 ||
+      fields.confidences.length !== fields.values.length
+    ) {
+      throw new ObjectiveAIError(
+        "Isotonic calibration requires as many values as confidences, and at least 1."
+      );
+    }
+    this.confidences = fields.confidences;
+    this.values = fields.values;
+  }
+
+  calibrate(confidence: number): number {
+    const { confidences, values } = this;
+    if (confidence <= confidences[0]) {
+      return values[0];
+    }
+    for (let i = 1; i < confidences.length; i += 1) {
+      if (confidence <= confidences[i]) {
+        const t =
+          (confidence - confidences[i - 1]) /
+          (confidences[i] - confidences[i - 1]);
+        return values[i - 1] + t * (values[i] - values[i - 1]);
+      }
+    }
+    return values[values.length - 1];
+  }
+
+  // fitted with pool adjacent violators, each pooled block becomes a step at
+  // its mean confidence
+  static fit(
+    samples: QueryObjectiveAICalibrationSample[]
+  ): QueryObjectiveAIIsotonicCalibrator {
+    assertSamples(samples);
+    const blocks: { confidence: number; correct: number; count: number }[] = [];
+    const sorted = [...samples].sort((a, b) => a.confidence - b.confidence);
+    for (const { confidence, correct } of sorted) {
+      blocks.push({ confidence, correct: correct ? 1 : 0, count: 1 });
+      while (blocks.length > 1) {
+        const last = blocks[blocks.length - 1];
+        const previous = blocks[blocks.length - 2];
+        if (
+          previous.correct / previous.count < last.correct / last.count &&
+          previous.confidence / previous.count < last.confidence / last.count
+        ) {
+          break;
+        }
+        blocks.pop();
+        previous.confidence += last.confidence;
+        previous.correct += last.correct;
+        previous.count += last.count;
+      }
+    }
+    return new QueryObjectiveAIIsotonicCalibrator({
+      confidences: blocks.map(({ confidence, count }) => confidence / count),
+      values: blocks.map(({ correct, count }) => correct / count),
+    });
+  }
+}
@@ -0,0 +1,94 @@
+import { BaseCallbackHandler } from "@langchain/core/callbacks/base";
+import { ChatGeneration, LLMResult } from "@langchain/core/outputs";
+import type { QueryModelMetadata } from "./chat_models.js";
+
+export interface ObjectiveAIUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  cost: number;
+}
+
+function emptyUsage(): ObjectiveAIUsage {
+  return {
+    prompt_tokens: 0,
+    completion_tokens: 0,
+    total_tokens: 0,
+    cost: 0,
+  };
+}
+
+function sumUsage(a: ObjectiveAIUsage, b: ObjectiveAIUsage): ObjectiveAIUsage {
+  return {
+    prompt_tokens: a.prompt_tokens + b.prompt_tokens,
+    completion_tokens: a.completion_tokens + b.completion_tokens,
+    total_tokens: a.total_tokens + b.total_tokens,
+    cost: a.cost + b.cost,
+  };
+}
+
+// adds up the tokens and cost of ObjectiveAI calls, in total for the lifetime
+// of the handler, per run, and per model
+// Query calls are broken down per upstream model of the ensemble
+export class ObjectiveAIUsageCallbackHandler extends BaseCallbackHandler {
+  name = "objectiveai_usage";
+
+  total: ObjectiveAIUsage = emptyUsage();
+
+  runs: Record<string, ObjectiveAIUsage> = {};
+
+  models: Record<string, ObjectiveAIUsage> = {};
+
+  async handleLLMEnd(output: LLMResult, runId: string): Promise<void> {
+    const tokenUsage = output.llmOutput?.tokenUsage;
+    if (tokenUsage === undefined) {
+      return;
+    }
+    const generations = output.generations.flat() as ChatGeneration[];
+    // streamed calls only report the cost in the generation info
+    let { cost } = tokenUsage;
+    if (typeof cost !== "number") {
+      cost = generations.reduce(
+        (sum, { generationInfo, message }) =>
+          sum + (generationInfo?.cost ?? message?.response_metadata.cost ?? 0),
+        0
+      );
+    }
+    const usage: ObjectiveAIUsage = {
+      prompt_tokens: tokenUsage.promptTokens ?? 0,
+      completion_tokens: tokenUsage.completionTokens ?? 0,
+      total_tokens: tokenUsage.totalTokens ?? 0,
+      cost: cost ?? 0,
+    };
+    this.total = sumUsage(this.total, usage);
+    this.runs[runId] = sumUsage(this.runs[runId] ?? emptyUsage(), usage);
+
+    for (const { generationInfo, message } of generations) {
+      const info = generationInfo ?? message?.response_metadata;
+      if (Array.isArray(info?.models)) {
+        for (const model of info.models as QueryModelMetadata[]) {
+          this.models[model.model] = sumUsage(
+            this.models[model.model] ?? emptyUsage(),
+            {
+              prompt_tokens: model.usage.input_tokens,
+              completion_tokens: model.usage.output_tokens,
+              total_tokens: model.usage.total_tokens,
+              cost: model.cost,
+            }
+          );
+        }
+      } else if (typeof info?.model === "string") {
+        this.models[info.model] = sumUsage(
+          this.models[info.model] ?? emptyUsage(),
+          usage
+        );
+      }
+    }
+  }
+
+  reset(): void {
+    this.total = emptyUsage();
+    this.runs = {};
+    this.models = {};
+  }
+}
@@ -1,125 +1,821 @@
 import { CallbackManagerForLLMRun } from "@langchain/core/callbacks/manager";
+import {
+  BaseLanguageModelInput,
+  StructuredOutputMethodOptions,
+} from "@langchain/core/language_models/base";
 import {
   BaseChatModel,
   BaseChatModelCallOptions,
   BaseChatModelParams,
+  BindToolsInput,
+  ToolChoice,
 } from "@langchain/core/language_models/chat_models";
+import { Serialized } from "@langchain/core/load/serializable";
 import {
   AIMessageChunk,
   BaseMessage,
   ChatMessage,
   ToolMessage,
   MessageContentComplex,
+  Base64ContentBlock,
   DataContentBlock,
+  isDataContentBlock,
   parseBase64DataUrl,
   parseMimeType,
   AIMessage,
   InvalidToolCall,
+  UsageMetadata,
+  isAIMessage,
 } from "@langchain/core/messages";
 import { ToolCall } from "@langchain/core/messages/tool";
-import { ChatResult } from "@langchain/core/outputs";
+import { ChatGenerationChunk, ChatResult } from "@langchain/core/outputs";
+import {
+  Runnable,
+  RunnableLambda,
+  RunnablePassthrough,
+  RunnableSequence,
+} from "@langchain/core/runnables";
+import { AsyncCaller } from "@langchain/core/utils/async_caller";
+import { convertToOpenAITool } from "@langchain/core/utils/function_calling";
+import { toJsonSchema } from "@langchain/core/utils/json_schema";
+import {
+  InteropZodType,
+  getSchemaDescription,
+  interopParseAsync,
+  isInteropZodSchema,
+} from "@langchain/core/utils/types";
 import { Chat, Query } from "objectiveai";
 import { type ClientOptions, OpenAI } from "openai";
-import { QueryObjectiveAIOutput } from "./output_parser";
+import { getEnvironmentVariable } from "@langchain/core/utils/env";
+import { ObjectiveAIBudget, ObjectiveAIBudgetRequest } from "./budget.js";
+import {
+  ObjectiveAIError,
+  ObjectiveAIMessageConversionError,
+  ObjectiveAIResponseError,
+  objectiveAIFailedAttemptHandler,
+  toObjectiveAIError,
+} from "./errors.js";
+import {
+  QueryObjectiveAIJsonObjectOutputParser,
+  QueryObjectiveAIJsonSchemaOutputParser,
+  QueryObjectiveAIOutput,
+} from "./output_parser.js";
+import { getQueryObjectiveAIPreset } from "./presets.js";
+
+// langchain only allows 1 choice, so when streaming, the deltas of each
+// generate choice are only sent to handleLLMNewToken with the choice index,
+// and the confidence-ranked choices are yielded as a single final chunk
+
+// call options shared by the Query and Chat models
+export interface ObjectiveAICallOptions extends BaseChatModelCallOptions {
+  // tools bound with bindTools, converted to OpenAI-style function tools
+  tools?: BindToolsInput[];
+  parallel_tool_calls?: boolean;
+  // response format set by withStructuredOutput
+  response_format?: Chat.Completions.Request.ResponseFormat;
+  // cost budget for this call, overriding the budget of the model
+  budget?: ObjectiveAIBudget;
+}
 
-// langchain only allows 1 choice, so we must do non-streaming
-// so as to put the highest confidence choice first
+// params shared by the Query and Chat models
+export interface ObjectiveAIParams extends BaseChatModelParams {
+  // shorthand for chat_completion_create_params.model, taking precedence
+  model?: string;
+  // apiKey defaults to OBJECTIVEAI_API_KEY, and is required unless a client
+  // is given, and baseURL defaults to OBJECTIVEAI_BASE_URL or the ObjectiveAI
+  // API
+  openai?: ClientOptions;
+  // pre-configured client, used instead of building one from openai
+  client?: OpenAI;
+  // fetch used by the client built from openai
+  fetch?: ClientOptions["fetch"];
+  // cost budget shared by every call of the model
+  budget?: ObjectiveAIBudget;
+}
 
-export interface QueryOptions extends BaseChatModelCallOptions {
+export interface QueryOptions extends ObjectiveAICallOptions {
   chat_completion_create_params?: Omit<
     Query.Completions.Request.ChatCompletionCreateParamsNonStreaming,
     "messages"
   >;
 }
 
-export interface BaseQueryModelParams extends BaseChatModelParams {
-  chat_completion_create_params: Omit<
+export interface BaseQueryModelParams extends ObjectiveAIParams {
+  // model may be left out if set by model or preset
+  chat_completion_create_params?: Omit<
     Query.Completions.Request.ChatCompletionCreateParamsNonStreaming,
+    "messages" | "model"
+  > & { model?: string };
+  // name of a registered preset, whose params are overridden by
+  // chat_completion_create_params
+  preset?: string;
+  // "choices" puts the JSON-stringified confidence-ranked choices in content
+  // "winner" puts the winning choice's text in content, and the ranked
+  // choices in additional_kwargs.outputs
+  // when streaming, either is in the final chunk, preceded by chunks with
+  // empty content and each choice's content delta in
+  // additional_kwargs.choice_contents, see QueryChoiceContents
+  content_format?: QueryContentFormat;
+  // vote on the tool calls of every generate choice, instead of taking the
+  // tool calls of the winning choice
+  tool_call_consensus?: boolean | QueryToolCallConsensusOptions;
+}
+
+export type QueryContentFormat = "choices" | "winner";
+
+// content of each generate choice by index, in
+// additional_kwargs.choice_contents
+// streamed chunks hold content deltas, which concatenate into the content so
+// far, and into the same contents as a unary response once complete
+export type QueryChoiceContents = Record<number, string>;
+
+// metadata of every choice, in response_metadata.choices
+export interface QueryChoiceMetadata {
+  index: number;
+  generate_id: string | null;
+  confidence_id: string | null;
+  confidence_weight: number | null;
+  confidence: number | null;
+  model: string;
+  model_index: number | null;
+  finish_reason: Query.Completions.Response.Unary.Choice["finish_reason"];
+  provider: string | null | undefined;
+  usage: UsageMetadata | undefined;
+  cost: number | undefined;
+}
+
+// summary of the choices of each upstream model, in response_metadata.models
+export interface QueryModelMetadata {
+  model: string;
+  // number of choices which generated an output
+  generate_count: number;
+  // number of choices which voted, and the sum of their weights
+  vote_count: number;
+  vote_weight: number;
+  // sum of the confidences of the outputs the model generated
+  confidence: number;
+  usage: UsageMetadata;
+  cost: number;
+}
+
+export interface QueryToolCallConsensusOptions {
+  // minimum share of the confidence the winning action must have, below
+  // which response_metadata.tool_call_consensus.low_consensus is true
+  min_share?: number;
+}
+
+export interface ChatObjectiveAICallOptions extends ObjectiveAICallOptions {
+  chat_completion_create_params?: Omit<
+    Chat.Completions.Request.ChatCompletionCreateParamsNonStreaming,
     "messages"
   >;
+}
+
+export interface ChatObjectiveAIParams extends ObjectiveAIParams {
+  // model may be left out if set by model
+  chat_completion_create_params?: Omit<
+    Chat.Completions.Request.ChatCompletionCreateParamsNonStreaming,
+    "messages" | "model"
+  > & { model?: string };
+}
+
+// options of a single request, from the call options
+export type QueryRequestOptions = Parameters<
+  typeof Query.Completions.create
+>[2];
+
+// params of a request, less its messages, as merged with the call options
+type ObjectiveAIChatCompletionCreateParams = Pick<
+  Chat.Completions.Request.ChatCompletionCreateParamsNonStreaming,
+  | "tools"
+  | "tool_choice"
+  | "parallel_tool_calls"
+  | "response_format"
+  | "stream"
+  | "stream_options"
+>;
+
+// client, retries, serialization and request params shared by the Query and
+// Chat models
+export abstract class BaseObjectiveAIChatModel<
+  CallOptions extends ObjectiveAICallOptions & {
+    chat_completion_create_params?: Params;
+  },
+  Params extends ObjectiveAIChatCompletionCreateParams
+> extends BaseChatModel<CallOptions, AIMessageChunk> {
+  lc_serializable = true;
+
+  lc_namespace = ["langchain", "chat_models", "objectiveai"];
+
+  get lc_secrets(): { [key: string]: string } | undefined {
+    return { "openai.apiKey": "OBJECTIVEAI_API_KEY" };
+  }
+
+  // constructor fields are snake_case, and must not be camelCased by load
+  get lc_aliases(): Record<string, string> {
+    return {
+      chat_completion_create_params: "chat_completion_create_params",
+      openai: "openai",
+    };
+  }
+
+  // the client, fetch, budget, model and preset are not serialized
+  get lc_serializable_keys(): string[] {
+    return ["chat_completion_create_params", "openai"];
+  }
+
+  chat_completion_create_params: Params;
+
   openai: ClientOptions;
+
+  client?: OpenAI;
+
+  fetch?: ClientOptions["fetch"];
+
+  budget?: ObjectiveAIBudget;
+
+  protected cachedClient?: CachedOpenAIClient;
+
+  // chat_completion_create_params are resolved from the fields by the model
+  constructor(
+    fields: ObjectiveAIParams,
+    chat_completion_create_params: Params
+  ) {
+    super(fields);
+    // non-retryable ObjectiveAI errors fail without being retried
+    this.caller = new AsyncCaller({
+      ...fields,
+      onFailedAttempt:
+        fields.onFailedAttempt ?? objectiveAIFailedAttemptHandler,
+    });
+    this.chat_completion_create_params = chat_completion_create_params;
+    this.openai = objectiveAIClientOptions(fields.openai);
+    // the params are serialized as resolved from the model and preset, but
+    // only the client options given, as the others are resolved from the
+    // environment again when loaded
+    this.lc_kwargs = {
+      ...this.lc_kwargs,
+      chat_completion_create_params: this.chat_completion_create_params,
+      openai: serializableClientOptions(fields.openai),
+    };
+    this.client = fields.client;
+    this.fetch = fields.fetch;
+    this.budget = fields.budget;
+  }
+
+  override invocationParams(_options?: this["ParsedCallOptions"]): {
+    chat_completion_create_params: Params;
+    openai: ClientOptions;
+  } {
+    const chat_completion_create_params = mergeChatCompletionCreateParams(
+      this.chat_completion_create_params,
+      _options,
+      this.disableStreaming
+    );
+    return {
+      chat_completion_create_params,
+      openai: this.openai,
+    };
+  }
+
+  // the resolved client options are serialized from the openai field, so
+  // they are narrowed to the serializable options given to the constructor
+  toJSON(): Serialized {
+    const serialized = super.toJSON();
+    if (serialized.type !== "constructor") {
+      return serialized;
+    }
+    const given = Object.keys(this.lc_kwargs.openai ?? {});
+    const { openai, ...kwargs } = serialized.kwargs;
+    return {
+      ...serialized,
+      kwargs:
+        given.length > 0
+          ? {
+              ...kwargs,
+              openai: Object.fromEntries(
+                given.map((key) => [key, openai?.[key]])
+              ),
+            }
+          : kwargs,
+    };
+  }
+
+  // reuses the client until the openai options change
+  getClient(openaiOptions: ClientOptions): OpenAI {
+    if (this.client !== undefined) {
+      return this.client;
+    }
+    // the client would otherwise send OPENAI_API_KEY to ObjectiveAI
+    if (!openaiOptions.apiKey) {
+      throw new ObjectiveAIError(
+        "ObjectiveAI API key is missing. Set OBJECTIVEAI_API_KEY, or pass openai.apiKey or a client."
+      );
+    }
+    // retries are made by the model's caller rather than by the client
+    this.cachedClient = cachedOpenAIClient(this.cachedClient, {
+      maxRetries: 0,
+      ...openaiOptions,
+      ...(this.fetch !== undefined ? { fetch: this.fetch } : {}),
+    });
+    return this.cachedClient.client;
+  }
+
+  override bindTools(
+    tools: BindToolsInput[],
+    kwargs?: Partial<CallOptions>
+  ): Runnable<BaseLanguageModelInput, AIMessageChunk, CallOptions> {
+    return this.withConfig({
+      tools: tools.map((tool) => convertToOpenAITool(tool)),
+      ...kwargs,
+    } as Partial<CallOptions>);
+  }
 }
 
-// TODO: support tools
-export class QueryObjectiveAI extends BaseChatModel<
+export class QueryObjectiveAI extends BaseObjectiveAIChatModel<
   QueryOptions,
-  AIMessageChunk
-> {
-  chat_completion_create_params: Omit<
+  Omit<
     Query.Completions.Request.ChatCompletionCreateParamsNonStreaming,
     "messages"
-  >;
-  openai: ClientOptions;
+  >
+> {
+  static lc_name() {
+    return "QueryObjectiveAI";
+  }
+
+  get lc_aliases(): Record<string, string> {
+    return {
+      content_format: "content_format",
+      tool_call_consensus: "tool_call_consensus",
+    };
+  }
+
+  get lc_serializable_keys(): string[] {
+    return [
+      ...super.lc_serializable_keys,
+      "content_format",
+      "tool_call_consensus",
+    ];
+  }
+
+  content_format: QueryContentFormat = "choices";
+
+  tool_call_consensus?: QueryToolCallConsensusOptions;
 
   constructor(fields: BaseQueryModelParams) {
-    super(fields);
-    this.chat_completion_create_params = fields.chat_completion_create_params;
-    this.openai = fields.openai;
+    const preset =
+      fields.preset !== undefined
+        ? getQueryObjectiveAIPreset(fields.preset)
+        : undefined;
+    super(
+      fields,
+      withModel(
+        {
+          ...preset?.chat_completion_create_params,
+          ...fields.chat_completion_create_params,
+        },
+        fields.model,
+        "QueryObjectiveAI requires a model, set with model, preset or chat_completion_create_params.model."
+      )
+    );
+    this.content_format = fields.content_format ?? this.content_format;
+    this.tool_call_consensus =
+      fields.tool_call_consensus === true
+        ? {}
+        : fields.tool_call_consensus || undefined;
   }
 
   _llmType() {
     return "objectiveai";
   }
 
-  override invocationParams(_options?: this["ParsedCallOptions"]): {
-    chat_completion_create_params: Omit<
-      Query.Completions.Request.ChatCompletionCreateParamsNonStreaming,
-      "messages"
+  // sends the request, overridden by FakeQueryObjectiveAI and
+  // EnsembleQueryModel
+  // messages are those the request messages were converted from, and the
+  // run manager that of the model's run
+  protected createCompletion(
+    openaiOptions: ClientOptions,
+    chatCompletionCreateParams: Query.Completions.Request.ChatCompletionCreateParamsNonStreaming,
+    requestOptions: QueryRequestOptions,
+    _messages: BaseMessage[],
+    _runManager?: CallbackManagerForLLMRun
+  ): Promise<Query.Completions.Response.Unary.ChatCompletion> {
+    return Query.Completions.create(
+      this.getClient(openaiOptions),
+      chatCompletionCreateParams,
+      requestOptions
+    );
+  }
+
+  protected createCompletionStream(
+    openaiOptions: ClientOptions,
+    chatCompletionCreateParams: Query.Completions.Request.ChatCompletionCreateParamsStreaming,
+    requestOptions: QueryRequestOptions,
+    _messages: BaseMessage[],
+    _runManager?: CallbackManagerForLLMRun
+  ): Promise<
+    AsyncIterable<Query.Completions.Response.Streaming.ChatCompletionChunk>
+  > {
+    return Query.Completions.create(
+      this.getClient(openaiOptions),
+      chatCompletionCreateParams,
+      requestOptions
+    );
+  }
+
+  override withStructuredOutput<
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    RunOutput extends Record<string, any> = Record<string, any>
+  >(
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    outputSchema: InteropZodType<RunOutput> | Record<string, any>,
+    config?: StructuredOutputMethodOptions<false>
+  ): Runnable<BaseLanguageModelInput, QueryObjectiveAIOutput<RunOutput>[]>;
+
+  override withStructuredOutput<
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    RunOutput extends Record<string, any> = Record<string, any>
+  >(
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    outputSchema: InteropZodType<RunOutput> | Record<string, any>,
+    config?: StructuredOutputMethodOptions<true>
+  ): Runnable<
+    BaseLanguageModelInput,
+    { raw: BaseMessage; parsed: QueryObjectiveAIOutput<RunOutput>[] | null }
+  >;
+
+  override withStructuredOutput<
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    RunOutput extends Record<string, any> = Record<string, any>
+  >(
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    outputSchema: InteropZodType<RunOutput> | Record<string, any>,
+    config?: StructuredOutputMethodOptions<boolean>
+  ):
+    | Runnable<BaseLanguageModelInput, QueryObjectiveAIOutput<RunOutput>[]>
+    | Runnable<
+        BaseLanguageModelInput,
+        { raw: BaseMessage; parsed: QueryObjectiveAIOutput<RunOutput>[] | null }
+      > {
+    const schema = toJsonSchema(outputSchema);
+    const name =
+      config?.name ??
+      (typeof schema.title === "string" ? schema.title : undefined) ??
+      "extract";
+    const description = getSchemaDescription(outputSchema);
+    const method = config?.method ?? "jsonSchema";
+
+    let llm: Runnable<BaseLanguageModelInput, AIMessageChunk>;
+    let outputParser: Runnable<
+      BaseMessage,
+      QueryObjectiveAIOutput<RunOutput>[]
     >;
-    openai: ClientOptions;
-  } {
-    // use params from constructor as base
-    const chat_completion_create_params = {
-      ...this.chat_completion_create_params,
-    };
-    // override with params from call, except for undefined values
-    // to delete params from the base, pass in null
-    if (_options?.chat_completion_create_params) {
-      for (const [key, value] of Object.entries(
-        _options.chat_completion_create_params
-      )) {
-        if (value !== undefined) {
-          (chat_completion_create_params as Record<string, unknown>)[key] =
-            value;
+    if (method === "jsonSchema") {
+      // every generate choice is parsed, each with its own confidence, and the
+      // response format comes from the same schema as the parser
+      const parser = new QueryObjectiveAIJsonSchemaOutputParser(outputSchema, {
+        name,
+        description,
+        strict: config?.strict,
+      });
+      llm = this.withConfig({ response_format: parser.getResponseFormat() });
+      outputParser = parser as Runnable<
+        BaseMessage,
+        QueryObjectiveAIOutput<RunOutput>[]
+      >;
+    } else if (method === "jsonMode") {
+      llm = this.withConfig({ response_format: { type: "json_object" } });
+      // every generate choice is parsed, each with its own confidence
+      outputParser = isInteropZodSchema(outputSchema)
+        ? new QueryObjectiveAIJsonSchemaOutputParser(outputSchema)
+        : (new QueryObjectiveAIJsonObjectOutputParser() as Runnable<
+            BaseMessage,
+            QueryObjectiveAIOutput<RunOutput>[]
+          >);
+    } else if (method === "functionCalling") {
+      llm = this.bindTools(
+        [
+          {
+            type: "function",
+            function: {
+              name,
+              description,
+              parameters: schema,
+              strict: config?.strict,
+            },
+          },
+        ],
+        { tool_choice: name }
+      );
+      // tool calls come from the winning choice, or the winning action under
+      // tool_call_consensus, whose share of the confidence is used instead
+      outputParser = RunnableLambda.from(async (message: BaseMessage) => {
+        const toolCall = isAIMessage(message)
+          ? message.tool_calls?.find((tc) => tc.name === name)
+          : undefined;
+        if (toolCall === undefined) {
+          throw new Error(
+            `Expected the winning choice to call the "${name}" tool.`
+          );
         }
-      }
+        const output = isInteropZodSchema(outputSchema)
+          ? await interopParseAsync(outputSchema, toolCall.args)
+          : (toolCall.args as RunOutput);
+        const { choice, tool_call_consensus } = message.response_metadata;
+        return [
+          {
+            confidence:
+              tool_call_consensus?.actions[0]?.share ?? choice?.confidence ?? 0,
+            output,
+          },
+        ];
+      });
+    } else {
+      throw new Error(`Unsupported structured output method: ${method}`);
     }
-    // override with disableStreaming
-    if (this.disableStreaming) {
-      chat_completion_create_params.stream = false;
-      chat_completion_create_params.stream_options = undefined;
+
+    if (!config?.includeRaw) {
+      return llm.pipe(outputParser).withConfig({
+        runName: "QueryObjectiveAIStructuredOutput",
+      });
     }
-    return {
-      chat_completion_create_params,
-      openai: this.openai,
-    };
+
+    // on parsing failure, return the raw message with parsed set to null
+    const parserAssign = RunnablePassthrough.assign({
+      parsed: (
+        input: { raw: BaseMessage },
+        config
+      ): Promise<QueryObjectiveAIOutput<RunOutput>[] | null> =>
+        outputParser.invoke(input.raw, config),
+    });
+    const parserNone = RunnablePassthrough.assign({
+      parsed: (_input: { raw: BaseMessage }) => null,
+    });
+    const parsedWithFallback = parserAssign.withFallbacks({
+      fallbacks: [parserNone],
+    });
+    return RunnableSequence.from<
+      BaseLanguageModelInput,
+      { raw: BaseMessage; parsed: QueryObjectiveAIOutput<RunOutput>[] | null }
+    >([{ raw: llm }, parsedWithFallback]).withConfig({
+      runName: "QueryObjectiveAIStructuredOutputRunnable",
+    });
   }
 
   async _generate(
     messages: BaseMessage[],
     options: this["ParsedCallOptions"],
-    _runManager?: CallbackManagerForLLMRun
+    runManager?: CallbackManagerForLLMRun
   ): Promise<ChatResult> {
     const {
       chat_completion_create_params: baseChatCompletionCreateParams,
       openai: openaiOptions,
     } = this.invocationParams(options);
-    const openai = new OpenAI(openaiOptions);
     const chatCompletionCreateParams: Query.Completions.Request.ChatCompletionCreateParamsNonStreaming =
       {
         ...baseChatCompletionCreateParams,
         messages: messages.map(baseMessageToChatCompletionRequestMessage),
         stream: false,
       };
-    const completion = await Query.Completions.create(
-      openai,
-      chatCompletionCreateParams,
+    const budget = options?.budget ?? this.budget;
+    const completion = await this.caller.call(async () => {
+      try {
+        // reserved before every attempt, as unusable responses are retried
+        // after being recorded
+        const reservation = await budget?.reserve(chatCompletionCreateParams);
+        let cost: number | undefined;
+        try {
+          const completion = await this.createCompletion(
+            openaiOptions,
+            chatCompletionCreateParams,
+            requestOptions(options),
+            messages,
+            runManager
+          );
+          cost = completion.usage?.cost;
+          assertQueryCompletionUsable(completion);
+          return completion;
+        } finally {
+          // unusable responses are paid for too
+          budget?.record(cost, reservation);
+        }
+      } catch (e) {
+        throw toObjectiveAIError(e);
+      }
+    });
+    const baseMessage = queryCompletionResponseToBaseMessage(completion, {
+      content_format: this.content_format,
+      tool_call_consensus: this.tool_call_consensus,
+    });
+    return {
+      generations: [
+        {
+          message: baseMessage,
+          text: baseMessage.content as string,
+          generationInfo: queryCompletionResponseToGenerationInfo(completion),
+        },
+      ],
+      llmOutput: {
+        tokenUsage: completion.usage
+          ? usageToTokenUsage(completion.usage)
+          : undefined,
+      },
+    };
+  }
+
+  async *_streamResponseChunks(
+    messages: BaseMessage[],
+    options: this["ParsedCallOptions"],
+    runManager?: CallbackManagerForLLMRun
+  ): AsyncGenerator<ChatGenerationChunk> {
+    const {
+      chat_completion_create_params: baseChatCompletionCreateParams,
+      openai: openaiOptions,
+    } = this.invocationParams(options);
+    const chatCompletionCreateParams: Query.Completions.Request.ChatCompletionCreateParamsStreaming =
       {
-        ...(options?.timeout !== undefined ? { timeout: options.timeout } : {}),
-        ...(options?.signal !== undefined ? { signal: options.signal } : {}),
+        ...baseChatCompletionCreateParams,
+        messages: messages.map(baseMessageToChatCompletionRequestMessage),
+        stream: true,
+        stream_options: baseChatCompletionCreateParams.stream_options ?? {
+          include_usage: true,
+        },
+      };
+    const stream = budgetedStream(
+      options?.budget ?? this.budget,
+      chatCompletionCreateParams,
+      () =>
+        this.caller.call(async () => {
+          try {
+            return await this.createCompletionStream(
+              openaiOptions,
+              chatCompletionCreateParams,
+              requestOptions(options),
+              messages,
+              runManager
+            );
+          } catch (e) {
+            throw toObjectiveAIError(e);
+          }
+        })
+    );
+
+    // accumulate the chunks into a unary completion
+    let completion: Query.Completions.Response.Unary.ChatCompletion | undefined;
+    for await (const chunk of stream) {
+      completion = mergeQueryCompletionChunk(completion, chunk);
+      for (const { delta, index } of chunk.choices) {
+        const choice = completion.choices.find((c) => c.index === index);
+        if (!delta.content || !choice?.generate_id) {
+          continue;
+        }
+        // deltas are yielded without content, as it would not concat
+        // into the confidence-ranked content of the final chunk
+        const choice_contents: QueryChoiceContents = {
+          [index]: delta.content,
+        };
+        yield new ChatGenerationChunk({
+          text: "",
+          message: new AIMessageChunk({
+            content: "",
+            additional_kwargs: { choice_contents },
+            id: chunk.id,
+          }),
+        });
+        await runManager?.handleLLMNewToken(
+          delta.content,
+          { prompt: 0, completion: index },
+          undefined,
+          undefined,
+          undefined,
+          {
+            chunk: new ChatGenerationChunk({
+              text: delta.content,
+              message: new AIMessageChunk({
+                content: delta.content,
+                id: chunk.id,
+              }),
+              generationInfo: {
+                index,
+                generate_id: choice.generate_id,
+                model: choice.model,
+                model_index: choice.model_index,
+              },
+            }),
+          }
+        );
       }
+    }
+    if (completion === undefined) {
+      throw new ObjectiveAIResponseError(
+        "ObjectiveAI Query stream ended without any chunks.",
+        { raw: "", retryable: true }
+      );
+    }
+    assertQueryCompletionUsable(completion);
+
+    // put the highest confidence choice first, as in unary responses
+    rankQueryCompletionChoices(completion);
+    const baseMessage = queryCompletionResponseToBaseMessage(completion, {
+      content_format: this.content_format,
+      tool_call_consensus: this.tool_call_consensus,
+    });
+    yield new ChatGenerationChunk({
+      message: new AIMessageChunk({
+        content: baseMessage.content,
+        // choice_contents were streamed already
+        additional_kwargs:
+          baseMessage.additional_kwargs.outputs !== undefined
+            ? { outputs: baseMessage.additional_kwargs.outputs }
+            : {},
+        tool_call_chunks: [
+          ...(baseMessage.tool_calls ?? []).map(({ name, args, id }) => ({
+            name,
+            args: JSON.stringify(args),
+            id,
+          })),
+          ...(baseMessage.invalid_tool_calls ?? []).map(
+            ({ name, args, id }) => ({ name, args, id })
+          ),
+        ].map((toolCallChunk, index) => ({
+          ...toolCallChunk,
+          index,
+          type: "tool_call_chunk" as const,
+        })),
+        id: baseMessage.id,
+        response_metadata: baseMessage.response_metadata,
+        usage_metadata: baseMessage.usage_metadata,
+      }),
+      text: baseMessage.content as string,
+      generationInfo: queryCompletionResponseToGenerationInfo(completion),
+    });
+  }
+}
+
+export class ChatObjectiveAI extends BaseObjectiveAIChatModel<
+  ChatObjectiveAICallOptions,
+  Omit<
+    Chat.Completions.Request.ChatCompletionCreateParamsNonStreaming,
+    "messages"
+  >
+> {
+  static lc_name() {
+    return "ChatObjectiveAI";
+  }
+
+  constructor(fields: ChatObjectiveAIParams) {
+    super(
+      fields,
+      withModel(
+        { ...fields.chat_completion_create_params },
+        fields.model,
+        "ChatObjectiveAI requires a model, set with model or chat_completion_create_params.model."
+      )
     );
-    const baseMessage = queryCompletionResponseToBaseMessage(completion);
+  }
+
+  _llmType() {
+    return "objectiveai-chat";
+  }
+
+  async _generate(
+    messages: BaseMessage[],
+    options: this["ParsedCallOptions"],
+    _runManager?: CallbackManagerForLLMRun
+  ): Promise<ChatResult> {
+    const {
+      chat_completion_create_params: baseChatCompletionCreateParams,
+      openai: openaiOptions,
+    } = this.invocationParams(options);
+    const openai = this.getClient(openaiOptions);
+    const chatCompletionCreateParams: Chat.Completions.Request.ChatCompletionCreateParamsNonStreaming =
+      {
+        ...baseChatCompletionCreateParams,
+        messages: messages.map(baseMessageToChatCompletionRequestMessage),
+        stream: false,
+      };
+    const budget = options?.budget ?? this.budget;
+    const completion = await this.caller.call(async () => {
+      try {
+        // reserved before every attempt, as in QueryObjectiveAI
+        const reservation = await budget?.reserve(chatCompletionCreateParams);
+        let cost: number | undefined;
+        try {
+          const completion = await Chat.Completions.create(
+            openai,
+            chatCompletionCreateParams,
+            requestOptions(options)
+          );
+          cost = completion.usage?.cost;
+          return completion;
+        } finally {
+          budget?.record(cost, reservation);
+        }
+      } catch (e) {
+        throw toObjectiveAIError(e);
+      }
+    });
+    const baseMessage = chatCompletionResponseToBaseMessage(completion);
     return {
       generations: [
         {
@@ -127,31 +823,480 @@ export class QueryObjectiveAI extends BaseChatModel<
           text: baseMessage.content as string,
           generationInfo: {
             id: completion.id,
-            choices_count: completion.choices.length,
             created: completion.created,
             model: completion.model,
             object: completion.object,
             service_tier: completion.service_tier,
             system_fingerprint: completion.system_fingerprint,
+            finish_reason: completion.choices[0]?.finish_reason,
+            cost: completion.usage?.cost,
           },
         },
       ],
       llmOutput: {
         tokenUsage: completion.usage
-          ? {
-              promptTokens: completion.usage.prompt_tokens,
-              completionTokens: completion.usage.completion_tokens,
-              totalTokens: completion.usage.total_tokens,
-              cost: completion.usage.cost,
-            }
+          ? usageToTokenUsage(completion.usage)
           : undefined,
       },
     };
   }
+
+  async *_streamResponseChunks(
+    messages: BaseMessage[],
+    options: this["ParsedCallOptions"],
+    runManager?: CallbackManagerForLLMRun
+  ): AsyncGenerator<ChatGenerationChunk> {
+    const {
+      chat_completion_create_params: baseChatCompletionCreateParams,
+      openai: openaiOptions,
+    } = this.invocationParams(options);
+    const openai = this.getClient(openaiOptions);
+    const chatCompletionCreateParams: Chat.Completions.Request.ChatCompletionCreateParamsStreaming =
+      {
+        ...baseChatCompletionCreateParams,
+        messages: messages.map(baseMessageToChatCompletionRequestMessage),
+        stream: true,
+        stream_options: baseChatCompletionCreateParams.stream_options ?? {
+          include_usage: true,
+        },
+      };
+    const stream = budgetedStream(
+      options?.budget ?? this.budget,
+      chatCompletionCreateParams,
+      () =>
+        this.caller.call(async () => {
+          try {
+            return await Chat.Completions.create(
+              openai,
+              chatCompletionCreateParams,
+              requestOptions(options)
+            );
+          } catch (e) {
+            throw toObjectiveAIError(e);
+          }
+        })
+    );
+    for await (const chunk of stream) {
+      const generationChunk = chatCompletionChunkToGenerationChunk(chunk);
+      yield generationChunk;
+      await runManager?.handleLLMNewToken(
+        generationChunk.text,
+        { prompt: 0, completion: chunk.choices[0]?.index ?? 0 },
+        undefined,
+        undefined,
+        undefined,
+        { chunk: generationChunk }
+      );
+    }
+  }
+}
+
+// timeout and signal of a request, from the call options
+function requestOptions(options?: BaseChatModelCallOptions): {
+  timeout?: number;
+  signal?: AbortSignal;
+} {
+  return {
+    ...(options?.timeout !== undefined ? { timeout: options.timeout } : {}),
+    ...(options?.signal !== undefined ? { signal: options.signal } : {}),
+  };
+}
+
+async function* convertStreamErrors<T>(
+  stream: AsyncIterable<T>
+): AsyncGenerator<T> {
+  try {
+    yield* stream;
+  } catch (e) {
+    throw toObjectiveAIError(e);
+  }
 }
 
+// reserves the budget, if any, before creating a stream, and records its
+// cost once it ends, fails or is stopped
+async function* budgetedStream<
+  T extends { usage?: Chat.Completions.Response.Usage | null }
+>(
+  budget: ObjectiveAIBudget | undefined,
+  request: ObjectiveAIBudgetRequest,
+  create: () => Promise<AsyncIterable<T>>
+): AsyncGenerator<T> {
+  const reservation = await budget?.reserve(request);
+  let cost: number | undefined;
+  try {
+    for await (const chunk of convertStreamErrors(await create())) {
+      cost = chunk.usage?.cost ?? cost;
+      yield chunk;
+    }
+  } finally {
+    budget?.record(cost, reservation);
+  }
+}
+
+// a Query response is unusable if it has no choices, or if no choice was
+// given a confidence, both of which may succeed on a retry
+function assertQueryCompletionUsable(
+  completion: Query.Completions.Response.Unary.ChatCompletion
+): void {
+  if (completion.choices.length === 0) {
+    throw new ObjectiveAIResponseError(
+      "ObjectiveAI Query response has no choices.",
+      { raw: JSON.stringify(completion), retryable: true }
+    );
+  } else if (completion.choices.every((c) => c.confidence === null)) {
+    throw new ObjectiveAIResponseError(
+      "ObjectiveAI Query response has no choice with a confidence.",
+      { raw: JSON.stringify(completion), retryable: true }
+    );
+  }
+}
+
+const OBJECTIVEAI_BASE_URL = "https://api.objective-ai.io";
+
+// undefined options do not override the defaults
+function objectiveAIClientOptions(options?: ClientOptions): ClientOptions {
+  return {
+    apiKey: getEnvironmentVariable("OBJECTIVEAI_API_KEY"),
+    baseURL:
+      getEnvironmentVariable("OBJECTIVEAI_BASE_URL") ?? OBJECTIVEAI_BASE_URL,
+    ...Object.fromEntries(
+      Object.entries(options ?? {}).filter(([, value]) => value !== undefined)
+    ),
+  };
+}
+
+// client options that can be serialized, apiKey being a secret
+// others, such as defaultHeaders, may hold credentials, and are left out
+const SERIALIZABLE_CLIENT_OPTIONS = [
+  "apiKey",
+  "baseURL",
+  "organization",
+  "project",
+  "timeout",
+] as const;
+
+function serializableClientOptions(
+  options?: ClientOptions
+): ClientOptions | undefined {
+  if (options === undefined) {
+    return undefined;
+  }
+  const serializable: ClientOptions = {};
+  for (const key of SERIALIZABLE_CLIENT_OPTIONS) {
+    if (options[key] !== undefined && options[key] !== null) {
+      Object.assign(serializable, { [key]: options[key] });
+    }
+  }
+  return serializable;
+}
+
+// sorts the choices of a completion by confidence, highest first, as
+// ObjectiveAI ranks those of unary responses, choices without a confidence
+// last
+export function rankQueryCompletionChoices(
+  completion: Query.Completions.Response.Unary.ChatCompletion
+): Query.Completions.Response.Unary.ChatCompletion {
+  completion.choices.sort(
+    (a, b) => (b.confidence ?? -1) - (a.confidence ?? -1)
+  );
+  return completion;
+}
+
+// the sum of the usages, undefined if there are none, and without cost if
+// none of them has one
+export function sumQueryUsage(
+  usages: Chat.Completions.Response.Usage[]
+): Chat.Completions.Response.Usage | undefined {
+  if (usages.length === 0) {
+    return undefined;
+  }
+  const costs = usages.flatMap(({ cost }) =>
+    cost !== undefined && cost !== null ? [cost] : []
+  );
+  return {
+    completion_tokens: usages.reduce(
+      (sum, usage) => sum + usage.completion_tokens,
+      0
+    ),
+    prompt_tokens: usages.reduce((sum, usage) => sum + usage.prompt_tokens, 0),
+    total_tokens: usages.reduce((sum, usage) => sum + usage.total_tokens, 0),
+    ...(costs.length > 0
+      ? { cost: costs.reduce((sum, cost) => sum + cost, 0) }
+      : {}),
+  };
+}
+
+// sets the model of fields which choose none, through model, preset or
+// chat_completion_create_params, for models which need no real one
+export function withDefaultQueryModel<T extends BaseQueryModelParams>(
+  fields: T,
+  model: string
+): T {
+  return fields.model === undefined &&
+    fields.preset === undefined &&
+    fields.chat_completion_create_params?.model === undefined
+    ? { ...fields, model }
+    : fields;
+}
+
+function withModel<T extends { model?: string }>(
+  params: T,
+  model: string | undefined,
+  message: string
+): T & { model: string } {
+  const resolved = model ?? params.model;
+  if (typeof resolved !== "string" || resolved.trim() === "") {
+    throw new ObjectiveAIError(message);
+  }
+  return { ...params, model: resolved };
+}
+
+interface CachedOpenAIClient {
+  client: OpenAI;
+  options: ClientOptions;
+}
+
+function cachedOpenAIClient(
+  cached: CachedOpenAIClient | undefined,
+  options: ClientOptions
+): CachedOpenAIClient {
+  if (cached !== undefined) {
+    const keys = new Set([
+      ...Object.keys(cached.options),
+      ...Object.keys(options),
+    ]);
+    let changed = false;
+    for (const key of keys) {
+      if (
+        cached.options[key as keyof ClientOptions] !==
+        options[key as keyof ClientOptions]
+      ) {
+        changed = true;
+        break;
+      }
+    }
+    if (!changed) {
+      return cached;
+    }
+  }
+  return { client: new OpenAI(options), options };
+}
+
+function queryCompletionResponseToGenerationInfo(
+  completion: Query.Completions.Response.Unary.ChatCompletion
+): Record<string, unknown> {
+  return {
+    id: completion.id,
+    choices_count: completion.choices.length,
+    created: completion.created,
+    model: completion.model,
+    object: completion.object,
+    service_tier: completion.service_tier,
+    system_fingerprint: completion.system_fingerprint,
+    cost: completion.usage?.cost,
+    ...queryCompletionResponseToVoteMetadata(completion),
+  };
+}
+
+function queryCompletionResponseToVoteMetadata(
+  completion: Query.Completions.Response.Unary.ChatCompletion
+): { choices: QueryChoiceMetadata[]; models: QueryModelMetadata[] } {
+  const choices: QueryChoiceMetadata[] = completion.choices.map((c) => ({
+    index: c.index,
+    generate_id: c.generate_id,
+    confidence_id: c.confidence_id,
+    confidence_weight: c.confidence_weight,
+    confidence: c.confidence,
+    model: c.model,
+    model_index: c.model_index,
+    finish_reason: c.finish_reason,
+    provider: c.completion_metadata.provider,
+    usage: c.completion_metadata.usage
+      ? usageToUsageMetadata(c.completion_metadata.usage)
+      : undefined,
+    cost: c.completion_metadata.usage?.cost,
+  }));
+  const models = new Map<string, QueryModelMetadata>();
+  for (const c of choices) {
+    let model = models.get(c.model);
+    if (model === undefined) {
+      model = {
+        model: c.model,
+        generate_count: 0,
+        vote_count: 0,
+        vote_weight: 0,
+        confidence: 0,
+        usage: { input_tokens: 0, output_tokens: 0, total_tokens: 0 },
+        cost: 0,
+      };
+      models.set(c.model, model);
+    }
+    if (c.generate_id) {
+      model.generate_count += 1;
+      model.confidence += c.confidence ?? 0;
+    }
+    if (c.confidence_id) {
+      model.vote_count += 1;
+      model.vote_weight += c.confidence_weight ?? 0;
+    }
+    model.usage.input_tokens += c.usage?.input_tokens ?? 0;
+    model.usage.output_tokens += c.usage?.output_tokens ?? 0;
+    model.usage.total_tokens += c.usage?.total_tokens ?? 0;
+    model.cost += c.cost ?? 0;
+  }
+  return { choices, models: [...models.values()] };
+}
+
+function mergeQueryCompletionChunk(
+  completion: Query.Completions.Response.Unary.ChatCompletion | undefined,
+  chunk: Query.Completions.Response.Streaming.ChatCompletionChunk
+): Query.Completions.Response.Unary.ChatCompletion {
+  const merged: Query.Completions.Response.Unary.ChatCompletion =
+    completion ?? {
+      id: chunk.id,
+      choices: [],
+      created: chunk.created,
+      model: chunk.model,
+      object: "chat.completion",
+      service_tier: chunk.service_tier,
+      system_fingerprint: chunk.system_fingerprint,
+    };
+  for (const { delta, ...choiceChunk } of chunk.choices) {
+    let choice = merged.choices.find((c) => c.index === choiceChunk.index);
+    if (choice === undefined) {
+      choice = {
+        ...choiceChunk,
+        finish_reason: choiceChunk.finish_reason ?? "stop",
+        message: {
+          role: "assistant",
+          content: null,
+          refusal: null,
+        },
+      };
+      merged.choices.push(choice);
+    } else {
+      // later chunks carry the finish reason and the confidence
+      for (const [key, value] of Object.entries(choiceChunk)) {
+        if (value !== undefined && value !== null) {
+          (choice as unknown as Record<string, unknown>)[key] = value;
+        }
+      }
+    }
+    // a choice failing mid-stream has no output, as in unary responses
+    if (choiceChunk.error !== undefined && choiceChunk.error !== null) {
+      choice.generate_id = null;
+      choice.message = { role: "assistant", content: null, refusal: null };
+    }
+    if (delta.content) {
+      choice.message.content = (choice.message.content ?? "") + delta.content;
+    }
+    if (delta.refusal) {
+      choice.message.refusal = (choice.message.refusal ?? "") + delta.refusal;
+    }
+    for (const toolCallChunk of delta.tool_calls ?? []) {
+      choice.message.tool_calls ??= [];
+      const toolCall = choice.message.tool_calls[toolCallChunk.index];
+      if (toolCall === undefined) {
+        choice.message.tool_calls[toolCallChunk.index] = {
+          type: "function",
+          id: toolCallChunk.id ?? "",
+          function: {
+            name: toolCallChunk.function?.name ?? "",
+            arguments: toolCallChunk.function?.arguments ?? "",
+          },
+        };
+      } else {
+        toolCall.id ||= toolCallChunk.id ?? "";
+        toolCall.function.name ||= toolCallChunk.function?.name ?? "";
+        toolCall.function.arguments += toolCallChunk.function?.arguments ?? "";
+      }
+    }
+  }
+  if (chunk.usage) {
+    merged.usage = chunk.usage;
+  }
+  return merged;
+}
+
+function mergeChatCompletionCreateParams<
+  T extends ObjectiveAIChatCompletionCreateParams
+>(
+  base: T,
+  options:
+    | (ObjectiveAICallOptions & { chat_completion_create_params?: T })
+    | undefined,
+  disableStreaming: boolean
+): T {
+  // use params from constructor as base
+  const chat_completion_create_params = {
+    ...base,
+  };
+  // override with params from call, except for undefined values
+  // to delete params from the base, pass in null
+  if (options?.chat_completion_create_params) {
+    for (const [key, value] of Object.entries(
+      options.chat_completion_create_params
+    )) {
+      if (value !== undefined) {
+        (chat_completion_create_params as Record<string, unknown>)[key] = value;
+      }
+    }
+  }
+  // override with tools from bindTools
+  if (options?.tools !== undefined && options.tools.length > 0) {
+    chat_completion_create_params.tools = options.tools.map(
+      (tool) => convertToOpenAITool(tool) as Chat.Completions.Request.Tool
+    );
+  }
+  if (options?.tool_choice !== undefined) {
+    chat_completion_create_params.tool_choice =
+      toolChoiceToChatCompletionToolChoice(options.tool_choice);
+  }
+  if (options?.parallel_tool_calls !== undefined) {
+    chat_completion_create_params.parallel_tool_calls =
+      options.parallel_tool_calls;
+  }
+  // override with response format from withStructuredOutput
+  if (options?.response_format !== undefined) {
+    chat_completion_create_params.response_format = options.response_format;
+  }
+  // override with disableStreaming
+  if (disableStreaming) {
+    chat_completion_create_params.stream = false;
+    chat_completion_create_params.stream_options = undefined;
+  }
+  return chat_completion_create_params;
+}
+
+function toolChoiceToChatCompletionToolChoice(
+  toolChoice: ToolChoice
+): Chat.Completions.Request.ToolChoice {
+  if (
+    toolChoice === "auto" ||
+    toolChoice === "none" ||
+    toolChoice === "required"
+  ) {
+    return toolChoice;
+  } else if (toolChoice === "any") {
+    // langchain uses "any" to force a call to any of the bound tools
+    return "required";
+  } else if (typeof toolChoice === "string") {
+    // any other string is the name of the tool to call
+    return {
+      type: "function",
+      function: {
+        name: toolChoice,
+      },
+    };
+  } else {
+    return toolChoice as Chat.Completions.Request.ToolChoice;
+  }
+}
+
+// the index, when given, is reported by conversion errors
 function baseMessageToChatCompletionRequestMessage(
-  message: BaseMessage
+  message: BaseMessage,
+  index?: number
 ): Chat.Completions.Request.Message {
   function getMessageTypeOrRole(message: BaseMessage): string {
     const type = message.getType();
@@ -161,6 +1306,117 @@ function baseMessageToChatCompletionRequestMessage(
       return type;
     }
   }
+  // describes a content part in errors, without its possibly large data
+  function describeContentPart(
+    p: MessageContentComplex | DataContentBlock
+  ): string {
+    if (isDataContentBlock(p)) {
+      return `"${p.type}" content block with source_type "${p.source_type}"`;
+    } else {
+      return `content part of type "${p.type}"`;
+    }
+  }
+  function unsupportedContentPart(
+    p: MessageContentComplex | DataContentBlock,
+    role: string,
+    reason?: string
+  ): never {
+    throw new ObjectiveAIMessageConversionError(
+      `Unsupported ${describeContentPart(p)} in ${role} message${
+        reason !== undefined ? `, ${reason}` : ""
+      }`,
+      { message_index: index, part: p }
+    );
+  }
+  function dataContentBlockFilename(p: DataContentBlock): string | undefined {
+    const filename =
+      p.metadata?.filename ?? p.metadata?.name ?? p.metadata?.title;
+    return typeof filename === "string" ? filename : undefined;
+  }
+  // the data of base64 blocks may already be a data URL
+  function base64ContentBlockToDataUrl(p: Base64ContentBlock): string {
+    if (p.data.startsWith("data:")) {
+      return p.data;
+    } else if (p.mime_type === undefined) {
+      unsupportedContentPart(p, "user", "base64 data requires a mime_type");
+    }
+    return `data:${p.mime_type};base64,${p.data}`;
+  }
+  function mimeTypeToAudioFormat(
+    mime_type: string
+  ):
+    | Chat.Completions.Request.Message.User.Content.Part.InputAudio.Format
+    | undefined {
+    const subtype = parseMimeType(mime_type).subtype.toLowerCase();
+    if (subtype === "mpeg" || subtype === "mp3") {
+      return "mp3";
+    } else if (
+      subtype === "wav" ||
+      subtype === "x-wav" ||
+      subtype === "wave" ||
+      subtype === "vnd.wave"
+    ) {
+      return "wav";
+    } else {
+      return undefined;
+    }
+  }
+  function dataContentBlockToUserContentPart(
+    p: DataContentBlock
+  ): Chat.Completions.Request.Message.User.Content.Part {
+    if (p.source_type === "text") {
+      return { type: "text", text: p.text };
+    } else if (p.type === "image" && p.source_type === "url") {
+      return { type: "image_url", image_url: { url: p.url } };
+    } else if (p.type === "image" && p.source_type === "base64") {
+      return {
+        type: "image_url",
+        image_url: { url: base64ContentBlockToDataUrl(p) },
+      };
+    } else if (p.type === "image") {
+      return unsupportedContentPart(p, "user", "images must be URLs or base64");
+    } else if (p.type === "audio" && p.source_type === "base64") {
+      const dataUrl = base64ContentBlockToDataUrl(p);
+      const parsed = parseBase64DataUrl({ dataUrl, asTypedArray: false });
+      if (parsed === undefined) {
+        unsupportedContentPart(p, "user", "the base64 data URL is invalid");
+      }
+      const format = mimeTypeToAudioFormat(parsed.mime_type);
+      if (format === undefined) {
+        unsupportedContentPart(
+          p,
+          "user",
+          `audio mime_type "${parsed.mime_type}" is not wav or mp3`
+        );
+      }
+      return {
+        type: "input_audio",
+        input_audio: { data: parsed.data, format },
+      };
+    } else if (p.type === "audio") {
+      return unsupportedContentPart(p, "user", "audio must be base64");
+    }
+    // files
+    if (p.source_type === "url") {
+      return {
+        type: "file",
+        file: { file_data: p.url, filename: dataContentBlockFilename(p) },
+      };
+    } else if (p.source_type === "base64") {
+      return {
+        type: "file",
+        file: {
+          file_data: base64ContentBlockToDataUrl(p),
+          filename: dataContentBlockFilename(p),
+        },
+      };
+    } else {
+      return {
+        type: "file",
+        file: { file_id: p.id, filename: dataContentBlockFilename(p) },
+      };
+    }
+  }
   function baseMessageContentToUserContent(
     content: string | (MessageContentComplex | DataContentBlock)[]
   ): Chat.Completions.Request.Message.User.Content {
@@ -169,7 +1425,9 @@ function baseMessageToChatCompletionRequestMessage(
     } else {
       const parts: Chat.Completions.Request.Message.User.Content.Part[] = [];
       for (const p of content) {
-        if (p.type === "text" && typeof p.text === "string") {
+        if (isDataContentBlock(p)) {
+          parts.push(dataContentBlockToUserContentPart(p));
+        } else if (p.type === "text" && typeof p.text === "string") {
           parts.push({
             type: "text",
             text: p.text,
@@ -200,93 +1458,89 @@ function baseMessageToChatCompletionRequestMessage(
             },
           });
         } else if (
-          "source_type" in p &&
-          p.source_type === "url" &&
-          "url" in p &&
-          typeof p.url === "string" &&
-          p.type === "image"
-        ) {
-          parts.push({
-            type: "image_url",
-            image_url: {
-              url: p.url,
-            },
-          });
-        } else if (
-          "source_type" in p &&
-          p.source_type === "base64" &&
-          "data" in p &&
-          typeof p.data === "string" &&
-          p.type === "image"
+          p.type === "input_audio" &&
+          typeof p.input_audio === "object" &&
+          p.input_audio !== null &&
+          typeof p.input_audio.data === "string"
         ) {
+          if (
+            p.input_audio.format !== "wav" &&
+            p.input_audio.format !== "mp3"
+          ) {
+            unsupportedContentPart(
+              p,
+              "user",
+              `audio format "${p.input_audio.format}" is not "wav" or "mp3"`
+            );
+          }
           parts.push({
-            type: "image_url",
-            image_url: {
-              url: `data:${p.data}`,
+            type: "input_audio",
+            input_audio: {
+              data: p.input_audio.data,
+              format: p.input_audio.format,
             },
           });
         } else if (
-          "source_type" in p &&
-          p.source_type === "base64" &&
-          "data" in p &&
-          typeof p.data === "string" &&
-          p.type === "audio"
-        ) {
-          try {
-            const parsed = parseBase64DataUrl({
-              dataUrl: p.data,
-              asTypedArray: false,
-            });
-            if (parsed) {
-              let { subtype } = parseMimeType(parsed.mime_type);
-              subtype = subtype.toLowerCase();
-              let format: Chat.Completions.Request.Message.User.Content.Part.InputAudio.Format;
-              if (subtype === "mpeg" || subtype === "mp3") {
-                format = "mp3";
-              } else if (subtype === "wav" || subtype === "x-wav") {
-                format = "wav";
-              } else {
-                throw new Error(`Unsupported audio format: ${subtype}`);
-              }
-              parts.push({
-                type: "input_audio",
-                input_audio: {
-                  data: p.data,
-                  format,
-                },
-              });
-            } else {
-              throw new Error(
-                `Failed to parse audio base64 data URL: ${p.data}`
-              );
-            }
-          } catch (e) {
-            throw new Error(
-              `Unsupported audio content part: ${p}, error: ${e}`
-            );
-          }
-        } else if (
-          "source_type" in p &&
-          p.source_type === "base64" &&
-          "data" in p &&
-          typeof p.data === "string" &&
-          p.type === "file"
+          p.type === "file" &&
+          typeof p.file === "object" &&
+          p.file !== null &&
+          (typeof p.file.file_data === "string" ||
+            typeof p.file.file_id === "string")
         ) {
           parts.push({
             type: "file",
             file: {
-              file_data: p.data,
+              file_data: p.file.file_data,
+              file_id: p.file.file_id,
+              filename: p.file.filename,
             },
           });
         } else {
-          throw new Error(`Unsupported Human content part: ${p}`);
+          unsupportedContentPart(p, "user");
         }
       }
       return parts;
     }
   }
-  function baseMessageContentToSimpleContent(
+  // text parts of assistant, system, developer and tool messages
+  function contentPartToText(
+    p: MessageContentComplex | DataContentBlock
+  ): string | undefined {
+    if (isDataContentBlock(p)) {
+      return p.source_type === "text" ? p.text : undefined;
+    } else if (p.type === "text" && typeof p.text === "string") {
+      return p.text;
+    } else {
+      return undefined;
+    }
+  }
+  function baseMessageContentToAssistantContent(
     content: string | (MessageContentComplex | DataContentBlock)[]
+  ): Chat.Completions.Request.Message.Assistant.Content | null {
+    if (typeof content === "string") {
+      return content;
+    } else {
+      const parts: Chat.Completions.Request.Message.Assistant.Content.Part[] =
+        [];
+      for (const p of content) {
+        const text = contentPartToText(p);
+        if (text !== undefined) {
+          parts.push({ type: "text", text });
+        } else if (p.type === "refusal" && typeof p.refusal === "string") {
+          parts.push({ type: "refusal", refusal: p.refusal });
+        } else if (p.type === "tool_use") {
+          // sent as tool_calls instead
+          continue;
+        } else {
+          unsupportedContentPart(p, "assistant");
+        }
+      }
+      return parts.length > 0 ? parts : null;
+    }
+  }
+  function baseMessageContentToTextContent(
+    content: string | (MessageContentComplex | DataContentBlock)[],
+    role: string
   ):
     | Chat.Completions.Request.Message.Developer.Content
     | Chat.Completions.Request.Message.System.Content
@@ -300,13 +1554,14 @@ function baseMessageToChatCompletionRequestMessage(
         | Chat.Completions.Request.Message.Tool.Content.Part
       )[] = [];
       for (const p of content) {
-        if (p.type === "text" && typeof p.text === "string") {
+        const text = contentPartToText(p);
+        if (text !== undefined) {
           parts.push({
             type: "text",
-            text: p.text,
+            text,
           });
         } else {
-          throw new Error(`Unsupported Non-Human content part: ${p}`);
+          unsupportedContentPart(p, role, "only text is supported");
         }
       }
       return parts;
@@ -338,12 +1593,16 @@ function baseMessageToChatCompletionRequestMessage(
               },
             });
           } catch (e) {
-            throw new Error(
-              `Failed to serialize tool call args: ${tc.args}, error: ${e}`
+            throw new ObjectiveAIMessageConversionError(
+              `Failed to serialize tool call args: ${e}`,
+              { message_index: index, part: tc, cause: e }
             );
           }
         } else {
-          throw new Error(`Unsupported tool call: ${tc}`);
+          throw new ObjectiveAIMessageConversionError(
+            "Unsupported tool call, expected a name, args and an id",
+            { message_index: index, part: tc }
+          );
         }
       }
       if (tool_calls.length > 0) {
@@ -362,7 +1621,7 @@ function baseMessageToChatCompletionRequestMessage(
   } else if (typeOrRole === "ai" || typeOrRole === "assistant") {
     return {
       role: "assistant",
-      content: baseMessageContentToSimpleContent(message.content),
+      content: baseMessageContentToAssistantContent(message.content),
       name: message.name,
       tool_calls:
         baseMessageToChatCompletionRequestMessageAssistantToolCalls(message),
@@ -370,74 +1629,284 @@ function baseMessageToChatCompletionRequestMessage(
   } else if (typeOrRole === "developer") {
     return {
       role: "developer",
-      content: baseMessageContentToSimpleContent(message.content),
+      content: baseMessageContentToTextContent(message.content, "developer"),
       name: message.name,
     };
   } else if (typeOrRole === "system") {
     return {
       role: "system",
-      content: baseMessageContentToSimpleContent(message.content),
+      content: baseMessageContentToTextContent(message.content, "system"),
       name: message.name,
     };
   } else if (typeOrRole === "tool" && ToolMessage.isInstance(message)) {
     return {
       role: "tool",
-      content: baseMessageContentToSimpleContent(message.content),
+      content: baseMessageContentToTextContent(message.content, "tool"),
       tool_call_id: message.tool_call_id,
     };
   } else {
-    throw new Error(`Unsupported message: ${message}`);
+    throw new ObjectiveAIMessageConversionError(
+      `Unsupported message of type "${typeOrRole}"`,
+      { message_index: index, part: message }
+    );
   }
 }
 
-function queryCompletionResponseToBaseMessage(
-  completion: Query.Completions.Response.Unary.ChatCompletion
+function chatCompletionResponseMessageToBaseMessageToolCalls(
+  message: Chat.Completions.Response.Unary.Message
+): {
+  tool_calls?: ToolCall[];
+  invalid_tool_calls?: InvalidToolCall[];
+} {
+  const tool_calls: ToolCall[] = [];
+  const invalid_tool_calls: InvalidToolCall[] = [];
+  for (const {
+    id,
+    function: { name, arguments: args },
+  } of message.tool_calls ?? []) {
+    try {
+      tool_calls.push({
+        name,
+        args: JSON.parse(args),
+        id,
+        type: "tool_call",
+      });
+    } catch (e) {
+      invalid_tool_calls.push({
+        name,
+        args,
+        id,
+        error: `Failed to parse tool call args: ${args}, error: ${e}`,
+        type: "invalid_tool_call",
+      });
+    }
+  }
+  return {
+    tool_calls: tool_calls.length > 0 ? tool_calls : undefined,
+    invalid_tool_calls:
+      invalid_tool_calls.length > 0 ? invalid_tool_calls : undefined,
+  };
+}
+
+function usageToUsageMetadata(
+  usage: Chat.Completions.Response.Usage
+): UsageMetadata {
+  return {
+    input_tokens: usage.prompt_tokens,
+    output_tokens: usage.completion_tokens,
+    total_tokens: usage.total_tokens,
+    input_token_details: usage.prompt_tokens_details
+      ? {
+          cache_read: usage.prompt_tokens_details.cached_tokens,
+        }
+      : undefined,
+    output_token_details: usage.completion_tokens_details
+      ? {
+          reasoning: usage.completion_tokens_details.reasoning_tokens,
+        }
+      : undefined,
+  };
+}
+
+function usageToTokenUsage(usage: Chat.Completions.Response.Usage): {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost?: number;
+} {
+  return {
+    promptTokens: usage.prompt_tokens,
+    completionTokens: usage.completion_tokens,
+    totalTokens: usage.total_tokens,
+    cost: usage.cost,
+  };
+}
+
+function chatCompletionResponseToBaseMessage(
+  completion: Chat.Completions.Response.Unary.ChatCompletion
 ): AIMessage {
-  function chatCompletionResponseMessageToBaseMessageToolCalls(
-    message: Chat.Completions.Response.Unary.Message
-  ): {
-    tool_calls?: ToolCall[];
-    invalid_tool_calls?: InvalidToolCall[];
-  } {
-    const tool_calls: ToolCall[] = [];
-    const invalid_tool_calls: InvalidToolCall[] = [];
-    for (const {
-      id,
-      function: { name, arguments: args },
-    } of message.tool_calls ?? []) {
-      try {
-        tool_calls.push({
-          name,
-          args: JSON.parse(args),
-          id,
-          type: "tool_call",
-        });
-      } catch (e) {
-        invalid_tool_calls.push({
-          name,
-          args,
+  const choice: Chat.Completions.Response.Unary.Choice | undefined =
+    completion.choices[0];
+  const { tool_calls, invalid_tool_calls } = choice
+    ? chatCompletionResponseMessageToBaseMessageToolCalls(choice.message)
+    : {};
+  return new AIMessage({
+    content: choice?.message.content ?? "",
+    tool_calls,
+    invalid_tool_calls,
+    id: completion.id,
+    response_metadata: {
+      id: completion.id,
+      created: completion.created,
+      model: completion.model,
+      object: completion.object,
+      service_tier: completion.service_tier,
+      system_fingerprint: completion.system_fingerprint,
+      finish_reason: choice?.finish_reason,
+    },
+    usage_metadata: completion.usage
+      ? usageToUsageMetadata(completion.usage)
+      : undefined,
+  });
+}
+
+function chatCompletionChunkToGenerationChunk(
+  chunk: Chat.Completions.Response.Streaming.ChatCompletionChunk
+): ChatGenerationChunk {
+  // only one choice is requested, usage comes in a chunk without choices
+  const choice: Chat.Completions.Response.Streaming.Choice | undefined =
+    chunk.choices[0];
+  const content = choice?.delta.content ?? "";
+  return new ChatGenerationChunk({
+    message: new AIMessageChunk({
+      content,
+      tool_call_chunks: choice?.delta.tool_calls?.map(
+        ({ index, id, function: fn }) => ({
+          name: fn?.name,
+          args: fn?.arguments,
           id,
-          error: `Failed to parse tool call args: ${args}, error: ${e}`,
-          type: "invalid_tool_call",
-        });
-      }
+          index,
+          type: "tool_call_chunk",
+        })
+      ),
+      id: chunk.id,
+      response_metadata:
+        choice?.finish_reason !== null && choice?.finish_reason !== undefined
+          ? {
+              created: chunk.created,
+              model: chunk.model,
+              object: chunk.object,
+              service_tier: chunk.service_tier,
+              system_fingerprint: chunk.system_fingerprint,
+              finish_reason: choice.finish_reason,
+            }
+          : undefined,
+      usage_metadata: chunk.usage
+        ? usageToUsageMetadata(chunk.usage)
+        : undefined,
+    }),
+    text: content,
+    generationInfo:
+      choice || chunk.usage
+        ? { index: choice?.index, cost: chunk.usage?.cost }
+        : undefined,
+  });
+}
+
+// canonical JSON, with object keys sorted, so equal values are equal strings
+function canonicalJsonStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJsonStringify).join(",")}]`;
+  } else if (typeof value === "object" && value !== null) {
+    return `{${Object.keys(value)
+      .sort()
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${canonicalJsonStringify(
+            (value as Record<string, unknown>)[key]
+          )}`
+      )
+      .join(",")}}`;
+  } else {
+    return JSON.stringify(value);
+  }
+}
+
+function queryCompletionResponseToToolCallConsensus(
+  completion: Query.Completions.Response.Unary.ChatCompletion,
+  { min_share = 0.5 }: QueryToolCallConsensusOptions
+): {
+  choice: Query.Completions.Response.Unary.Choice | undefined;
+  metadata: Record<string, unknown>;
+} {
+  // an action is the set of tool calls of a choice, with canonical args
+  const actions = new Map<
+    string,
+    {
+      choice: Query.Completions.Response.Unary.Choice;
+      confidence: number;
+      tool_calls: { name: string; args: unknown }[];
+    }
+  >();
+  let total = 0;
+  for (const c of completion.choices) {
+    if (!c.generate_id || c.confidence === null) {
+      continue;
+    }
+    const tool_calls = (c.message.tool_calls ?? [])
+      .map(({ function: { name, arguments: args } }) => {
+        let parsedArgs: unknown;
+        try {
+          parsedArgs = JSON.parse(args);
+        } catch {
+          parsedArgs = args.trim();
+        }
+        return { name, args: parsedArgs };
+      })
+      .sort((a, b) =>
+        canonicalJsonStringify(a).localeCompare(canonicalJsonStringify(b))
+      );
+    const key = canonicalJsonStringify(tool_calls);
+    total += c.confidence;
+    const action = actions.get(key);
+    if (action) {
+      action.confidence += c.confidence;
+    } else {
+      // choices are sorted, so the first choice is the most confident one
+      actions.set(key, { choice: c, confidence: c.confidence, tool_calls });
     }
-    return {
-      tool_calls: tool_calls.length > 0 ? tool_calls : undefined,
-      invalid_tool_calls:
-        invalid_tool_calls.length > 0 ? invalid_tool_calls : undefined,
-    };
   }
+  const ranked = [...actions.values()].sort(
+    (a, b) => b.confidence - a.confidence
+  );
+  const share = (confidence: number) => (total > 0 ? confidence / total : 0);
+  return {
+    choice: ranked[0]?.choice,
+    metadata: {
+      actions: ranked.map(({ confidence, tool_calls }) => ({
+        confidence,
+        share: share(confidence),
+        tool_calls,
+      })),
+      min_share,
+      low_consensus:
+        ranked[0] === undefined || share(ranked[0].confidence) < min_share,
+    },
+  };
+}
 
-  // use winning choice for tool_calls and metadata
+function queryCompletionResponseToBaseMessage(
+  completion: Query.Completions.Response.Unary.ChatCompletion,
+  {
+    content_format = "choices",
+    tool_call_consensus,
+  }: {
+    content_format?: QueryContentFormat;
+    tool_call_consensus?: QueryToolCallConsensusOptions;
+  } = {}
+): AIMessage {
+  // use winning choice for metadata
   const choice: Query.Completions.Response.Unary.Choice | undefined =
     completion.choices[0];
-  const { tool_calls, invalid_tool_calls } = choice
-    ? chatCompletionResponseMessageToBaseMessageToolCalls(choice.message)
+
+  // use winning choice or winning action for tool_calls
+  const consensus = tool_call_consensus
+    ? queryCompletionResponseToToolCallConsensus(
+        completion,
+        tool_call_consensus
+      )
+    : undefined;
+  const toolCallChoice = consensus ? consensus.choice : choice;
+  const { tool_calls, invalid_tool_calls } = toolCallChoice
+    ? chatCompletionResponseMessageToBaseMessageToolCalls(
+        toolCallChoice.message
+      )
     : {};
 
   // return each "generate" choice, including confidence and content
   const content: QueryObjectiveAIOutput<string>[] = [];
+  const choice_contents: QueryChoiceContents = {};
   for (const c of completion.choices) {
     if (c.generate_id && c.confidence !== null) {
       content.push({
@@ -445,10 +1914,21 @@ function queryCompletionResponseToBaseMessage(
         output: c.message.content ?? "",
       });
     }
+    // as streamed, which skips empty content
+    if (c.generate_id && c.message.content) {
+      choice_contents[c.index] = c.message.content;
+    }
   }
 
   return new AIMessage({
-    content: JSON.stringify(content),
+    content:
+      content_format === "winner"
+        ? content[0]?.output ?? ""
+        : JSON.stringify(content),
+    additional_kwargs: {
+      ...(Object.keys(choice_contents).length > 0 ? { choice_contents } : {}),
+      ...(content_format === "winner" ? { outputs: content } : {}),
+    },
     tool_calls,
     invalid_tool_calls,
     id: completion.id,
@@ -478,25 +1958,11 @@ function queryCompletionResponseToBaseMessage(
           provider: choice?.completion_metadata.provider,
         },
       },
+      tool_call_consensus: consensus?.metadata,
+      ...queryCompletionResponseToVoteMetadata(completion),
     },
     usage_metadata: completion.usage
-      ? {
-          input_tokens: completion.usage.prompt_tokens,
-          output_tokens: completion.usage.completion_tokens,
-          total_tokens: completion.usage.total_tokens,
-          input_token_details: completion.usage.prompt_tokens_details
-            ? {
-                cache_read:
-                  completion.usage.prompt_tokens_details.cached_tokens,
-              }
-            : undefined,
-          output_token_details: completion.usage.completion_tokens_details
-            ? {
-                reasoning:
-                  completion.usage.completion_tokens_details.reasoning_tokens,
-              }
-            : undefined,
-        }
+      ? usageToUsageMetadata(completion.usage)
       : undefined,
   });
 }
@@ -0,0 +1,160 @@
+import { CallbackManagerForChainRun } from "@langchain/core/callbacks/manager";
+import { BasePromptTemplate } from "@langchain/core/prompts";
+import {
+  Runnable,
+  RunnableConfig,
+  patchConfig,
+} from "@langchain/core/runnables";
+import { InputValues } from "@langchain/core/utils/types";
+import { z } from "zod";
+import { QueryObjectiveAI } from "./chat_models.js";
+import { ObjectiveAIError } from "./errors.js";
+import {
+  QueryObjectiveAIJsonSchemaOutputParser,
+  QueryObjectiveAIOutput,
+  tallyQueryObjectiveAIVotes,
+  topQueryObjectiveAIVote,
+} from "./output_parser.js";
+
+export interface QueryObjectiveAIClassifierLabel {
+  label: string;
+  description?: string;
+}
+
+export interface QueryObjectiveAIClassifierFields<
+  RunInput extends InputValues
+> {
+  model: QueryObjectiveAI;
+  labels: (string | QueryObjectiveAIClassifierLabel)[];
+  // if the prompt has a "labels" input variable, it is filled with the labels
+  // and their descriptions
+  prompt: BasePromptTemplate<RunInput>;
+  // each choice may vote for any number of labels
+  multi_label?: boolean;
+  // minimum probability of a label to be selected in multi-label mode
+  threshold?: number;
+}
+
+export interface QueryObjectiveAIClassification {
+  // probability of every label, 0 for labels no choice voted for
+  // single-label probabilities sum to 1, multi-label probabilities are the
+  // share of the votes which include each label
+  probabilities: Record<string, number>;
+  // the most probable label
+  label: string | undefined;
+  // the selected labels, the argmax in single-label mode, or those at or
+  // above the threshold in multi-label mode
+  labels: string[];
+  // the parsed choices, each with its own confidence
+  outputs: QueryObjectiveAIOutput<string[]>[];
+}
+
+export class QueryObjectiveAIClassifier<
+  RunInput extends InputValues = InputValues
+> extends Runnable<RunInput, QueryObjectiveAIClassification> {
+  static lc_name() {
+    return "QueryObjectiveAIClassifier";
+  }
+
+  lc_namespace = ["langchain", "runnables", "objectiveai"];
+
+  model: QueryObjectiveAI;
+
+  labels: QueryObjectiveAIClassifierLabel[];
+
+  prompt: BasePromptTemplate<RunInput>;
+
+  multi_label = false;
+
+  threshold = 0.5;
+
+  constructor(fields: QueryObjectiveAIClassifierFields<RunInput>) {
+    super(fields);
+    if (fields.labels.length === 0) {
+      throw new ObjectiveAIError(
+        "QueryObjectiveAIClassifier requires at least 1 label."
+      );
+    }
+    this.model = fields.model;
+    this.labels = fields.labels.map((label) =>
+      typeof label === "string" ? { label } : label
+    );
+    this.prompt = fields.prompt;
+    this.multi_label = fields.multi_label ?? this.multi_label;
+    this.threshold = fields.threshold ?? this.threshold;
+  }
+
+  formatLabels(): string {
+    return this.labels
+      .map(({ label, description }) =>
+        description ? `- ${label}: ${description}` : `- ${label}`
+      )
+      .join("\n");
+  }
+
+  schema() {
+    const label = z
+      .enum(this.labels.map(({ label }) => label) as [string, ...string[]])
+      .describe(`One of:\n${this.formatLabels()}`);
+    return this.multi_label
+      ? z.object({ labels: z.array(label) })
+      : z.object({ label });
+  }
+
+  async _invoke(
+    input: RunInput,
+    config?: Partial<RunnableConfig>,
+    runManager?: CallbackManagerForChainRun
+  ): Promise<QueryObjectiveAIClassification> {
+    const parser = new QueryObjectiveAIJsonSchemaOutputParser(this.schema(), {
+      name: "classification",
+      strict: true,
+    });
+    const chain = this.prompt
+      .pipe(
+        this.model.withConfig({ response_format: parser.getResponseFormat() })
+      )
+      .pipe(parser);
+    const results = await chain.invoke(
+      (this.prompt.inputVariables as string[]).includes("labels")
+        ? { ...input, labels: this.formatLabels() }
+        : input,
+      patchConfig(config, {
+        callbacks: runManager?.getChild("classify"),
+      })
+    );
+    const outputs = results.map(({ confidence, output }) => ({
+      confidence,
+      output:
+        "labels" in output
+          ? [...new Set(output.labels as string[])]
+          : [output.label as string],
+    }));
+    return this.classify(outputs);
+  }
+
+  classify(
+    outputs: QueryObjectiveAIOutput<string[]>[]
+  ): QueryObjectiveAIClassification {
+    const probabilities = tallyQueryObjectiveAIVotes(
+      this.labels.map(({ label }) => label),
+      outputs,
+      (output) => output
+    );
+    const label = topQueryObjectiveAIVote(probabilities);
+    let labels: string[] = label !== undefined ? [label] : [];
+    if (this.multi_label) {
+      labels = Object.entries(probabilities)
+        .filter(([, p]) => p > 0 && p >= this.threshold)
+        .map(([l]) => l);
+    }
+    return { probabilities, label, labels, outputs };
+  }
+
+  async invoke(
+    input: RunInput,
+    config?: Partial<RunnableConfig>
+  ): Promise<QueryObjectiveAIClassification> {
+    return this._callWithConfig(this._invoke, input, config);
+  }
+}
@@ -0,0 +1,162 @@
+import { CallbackManagerForChainRun } from "@langchain/core/callbacks/manager";
+import {
+  Runnable,
+  RunnableConfig,
+  RunnableLike,
+  _coerceToRunnable,
+  patchConfig,
+} from "@langchain/core/runnables";
+import { QueryObjectiveAI } from "./chat_models.js";
+import {
+  QueryObjectiveAIOutput,
+  QueryObjectiveAITextOutputParser,
+} from "./output_parser.js";
+
+export type QueryObjectiveAIConfidenceRoute = "accept" | "low_confidence";
+
+// input of both branches, the original input and the ranked outputs
+export interface QueryObjectiveAIConfidenceRouterBranchInput<RunInput, T> {
+  input: RunInput;
+  outputs: QueryObjectiveAIOutput<T>[];
+}
+
+export interface QueryObjectiveAIConfidenceRouterFields<
+  RunInput,
+  T,
+  RunOutput
+> {
+  // a QueryObjectiveAI chain ending with a Query parser, or the model itself,
+  // in which case its text outputs are routed
+  runnable:
+    | RunnableLike<RunInput, QueryObjectiveAIOutput<T>[]>
+    | QueryObjectiveAI;
+  // minimum confidence of the winning output
+  min_confidence?: number;
+  // minimum gap between the confidences of the first and second outputs
+  min_margin?: number;
+  // additional rule, the outputs are accepted only if it returns true
+  rule?: (outputs: QueryObjectiveAIOutput<T>[]) => boolean;
+  accept: RunnableLike<
+    QueryObjectiveAIConfidenceRouterBranchInput<RunInput, T>,
+    RunOutput
+  >;
+  low_confidence: RunnableLike<
+    QueryObjectiveAIConfidenceRouterBranchInput<RunInput, T>,
+    RunOutput
+  >;
+}
+
+export class QueryObjectiveAIConfidenceRouter<
+  RunInput,
+  T,
+  RunOutput
+> extends Runnable<RunInput, RunOutput> {
+  static lc_name() {
+    return "QueryObjectiveAIConfidenceRouter";
+  }
+
+  lc_namespace = ["langchain", "runnables", "objectiveai"];
+
+  runnable: Runnable<RunInput, QueryObjectiveAIOutput<T>[]>;
+
+  min_confidence = 0;
+
+  min_margin = 0;
+
+  rule?: (outputs: QueryObjectiveAIOutput<T>[]) => boolean;
+
+  accept: Runnable<
+    QueryObjectiveAIConfidenceRouterBranchInput<RunInput, T>,
+    RunOutput
+  >;
+
+  low_confidence: Runnable<
+    QueryObjectiveAIConfidenceRouterBranchInput<RunInput, T>,
+    RunOutput
+  >;
+
+  constructor(
+    fields: QueryObjectiveAIConfidenceRouterFields<RunInput, T, RunOutput>
+  ) {
+    super(fields);
+    this.runnable = isQueryObjectiveAI(fields.runnable)
+      ? (fields.runnable.pipe(
+          new QueryObjectiveAITextOutputParser()
+        ) as unknown as Runnable<RunInput, QueryObjectiveAIOutput<T>[]>)
+      : _coerceToRunnable(fields.runnable);
+    this.min_confidence = fields.min_confidence ?? this.min_confidence;
+    this.min_margin = fields.min_margin ?? this.min_margin;
+    this.rule = fields.rule;
+    this.accept = _coerceToRunnable(fields.accept);
+    this.low_confidence = _coerceToRunnable(fields.low_confidence);
+  }
+
+  route(outputs: QueryObjectiveAIOutput<T>[]): QueryObjectiveAIConfidenceRoute {
+    const top = outputs[0]?.confidence;
+    if (top === undefined || top < this.min_confidence) {
+      return "low_confidence";
+    }
+    const margin = top - (outputs[1]?.confidence ?? 0);
+    if (margin < this.min_margin) {
+      return "low_confidence";
+    }
+    if (this.rule !== undefined && !this.rule(outputs)) {
+      return "low_confidence";
+    }
+    return "accept";
+  }
+
+  async _invoke(
+    input: RunInput,
+    config?: Partial<RunnableConfig>,
+    runManager?: CallbackManagerForChainRun
+  ): Promise<RunOutput> {
+    const outputs = await this.runnable.invoke(
+      input,
+      patchConfig(config, {
+        callbacks: runManager?.getChild("query"),
+      })
+    );
+    const route = this.route(outputs);
+    const branch = route === "accept" ? this.accept : this.low_confidence;
+    // the route is recorded in the metadata and tags of the branch run
+    return branch.invoke(
+      { input, outputs },
+      {
+        ...patchConfig(config, {
+          callbacks: runManager?.getChild(`branch:${route}`),
+        }),
+        metadata: {
+          ...config?.metadata,
+          objectiveai_confidence_route: route,
+          objectiveai_top_confidence: outputs[0]?.confidence,
+          objectiveai_confidence_margin:
+            outputs[0] !== undefined
+              ? outputs[0].confidence - (outputs[1]?.confidence ?? 0)
+              : undefined,
+        },
+        tags: [
+          ...(config?.tags ?? []),
+          `objectiveai_confidence_route:${route}`,
+        ],
+      }
+    );
+  }
+
+  async invoke(
+    input: RunInput,
+    config?: Partial<RunnableConfig>
+  ): Promise<RunOutput> {
+    return this._callWithConfig(this._invoke, input, config);
+  }
+}
+
+function isQueryObjectiveAI(runnable: unknown): runnable is QueryObjectiveAI {
+  return (
+    typeof runnable === "object" &&
+    runnable !== null &&
+    "_llmType" in runnable &&
+    typeof runnable._llmType === "function" &&
+    runnable._llmType() === "objectiveai"
+  );
+}
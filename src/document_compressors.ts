@@ -0,0 +1,148 @@
+import { Callbacks } from "@langchain/core/callbacks/manager";
+import { Document, DocumentInterface } from "@langchain/core/documents";
+import { ChatPromptTemplate } from "@langchain/core/prompts";
+import { BaseDocumentCompressor } from "@langchain/core/retrievers/document_compressors";
+import { QueryObjectiveAI } from "./chat_models.js";
+import { QueryObjectiveAIClassifier } from "./classifier.js";
+
+// "relevance" asks whether each document is relevant to the query, and scores
+// it with the confidence of "relevant"
+// "select" asks which document best answers the query, and scores each with
+// the confidence of its selection
+export type QueryObjectiveAIDocumentCompressorMode = "relevance" | "select";
+
+export interface QueryObjectiveAIDocumentCompressorFields {
+  model: QueryObjectiveAI;
+  mode?: QueryObjectiveAIDocumentCompressorMode;
+  // number of documents to keep, the highest scoring first
+  top_k?: number;
+  // minimum score of a document to be kept
+  min_confidence?: number;
+  // maximum number of concurrent Query calls in "relevance" mode
+  max_concurrency?: number;
+  // metadata key under which the score is written
+  metadata_key?: string;
+  // "relevance" prompts take {labels}, {query} and {passage}
+  // "select" prompts take {labels}, {query} and {passages}
+  prompt?: ChatPromptTemplate;
+}
+
+const RELEVANCE_PROMPT = ChatPromptTemplate.fromMessages([
+  [
+    "system",
+    "Judge whether the passage is relevant to the query. Respond with one of the following labels:\n{labels}",
+  ],
+  ["human", "Query: {query}\n\nPassage:\n{passage}"],
+]);
+
+const SELECT_PROMPT = ChatPromptTemplate.fromMessages([
+  [
+    "system",
+    "Choose the passage which best answers the query. Respond with the number of the passage, one of:\n{labels}",
+  ],
+  ["human", "Query: {query}\n\nPassages:\n\n{passages}"],
+]);
+
+export class QueryObjectiveAIDocumentCompressor extends BaseDocumentCompressor {
+  model: QueryObjectiveAI;
+
+  mode: QueryObjectiveAIDocumentCompressorMode = "relevance";
+
+  top_k?: number;
+
+  min_confidence = 0;
+
+  max_concurrency = 5;
+
+  metadata_key = "relevance_score";
+
+  prompt?: ChatPromptTemplate;
+
+  constructor(fields: QueryObjectiveAIDocumentCompressorFields) {
+    super();
+    this.model = fields.model;
+    this.mode = fields.mode ?? this.mode;
+    this.top_k = fields.top_k;
+    this.min_confidence = fields.min_confidence ?? this.min_confidence;
+    this.max_concurrency = fields.max_concurrency ?? this.max_concurrency;
+    this.metadata_key = fields.metadata_key ?? this.metadata_key;
+    this.prompt = fields.prompt;
+  }
+
+  async scoreDocuments(
+    documents: DocumentInterface[],
+    query: string,
+    callbacks?: Callbacks
+  ): Promise<number[]> {
+    if (documents.length === 0) {
+      return [];
+    } else if (this.mode === "relevance") {
+      const classifier = new QueryObjectiveAIClassifier({
+        model: this.model,
+        labels: [
+          {
+            label: "relevant",
+            description: "the passage helps answer the query",
+          },
+          {
+            label: "irrelevant",
+            description: "the passage does not help answer the query",
+          },
+        ],
+        prompt: this.prompt ?? RELEVANCE_PROMPT,
+      });
+      const classifications = await classifier.batch(
+        documents.map((document) => ({
+          query,
+          passage: document.pageContent,
+        })),
+        { callbacks, maxConcurrency: this.max_concurrency }
+      );
+      return classifications.map(({ probabilities }) => probabilities.relevant);
+    } else {
+      const labels = documents.map((_, i) => `${i + 1}`);
+      const classifier = new QueryObjectiveAIClassifier({
+        model: this.model,
+        labels,
+        prompt: this.prompt ?? SELECT_PROMPT,
+      });
+      const { probabilities } = await classifier.invoke(
+        {
+          query,
+          passages: documents
+            .map((document, i) => `[${labels[i]}]\n${document.pageContent}`)
+            .join("\n\n"),
+        },
+        { callbacks }
+      );
+      return labels.map((label) => probabilities[label]);
+    }
+  }
+
+  async compressDocuments(
+    documents: DocumentInterface[],
+    query: string,
+    callbacks?: Callbacks
+  ): Promise<DocumentInterface[]> {
+    const scores = await this.scoreDocuments(documents, query, callbacks);
+    const scored = documents
+      .map(
+        (document, i) =>
+          new Document({
+            ...document,
+            metadata: {
+              ...document.metadata,
+              [this.metadata_key]: scores[i],
+            },
+          })
+      )
+      .filter(
+        (document) =>
+          document.metadata[this.metadata_key] >= this.min_confidence
+      )
+      .sort(
+        (a, b) => b.metadata[this.metadata_key] - a.metadata[this.metadata_key]
+      );
+    return this.top_k !== undefined ? scored.slice(0, this.top_k) : scored;
+  }
+}
@@ -0,0 +1,528 @@
+import {
+  CallbackManager,
+  CallbackManagerForLLMRun,
+} from "@langchain/core/callbacks/manager";
+import {
+  BaseChatModel,
+  BaseChatModelCallOptions,
+} from "@langchain/core/language_models/chat_models";
+import {
+  AIMessageChunk,
+  BaseMessage,
+  isAIMessage,
+} from "@langchain/core/messages";
+import { parseJsonMarkdown } from "@langchain/core/output_parsers";
+import { type ClientOptions } from "openai";
+import { Chat, Query } from "objectiveai";
+import {
+  BaseQueryModelParams,
+  QueryObjectiveAI,
+  QueryRequestOptions,
+  rankQueryCompletionChoices,
+  sumQueryUsage,
+  withDefaultQueryModel,
+} from "./chat_models.js";
+import { ObjectiveAIError, ObjectiveAIResponseError } from "./errors.js";
+import { structuralEqual } from "./output_parser.js";
+
+export interface EnsembleQueryModelMember {
+  model: BaseChatModel;
+  // weight of the model's vote, defaults to 1
+  weight?: number;
+  // model of its choice, defaults to the name of the model
+  name?: string;
+}
+
+export interface EnsembleQueryModelParams
+  extends Omit<BaseQueryModelParams, "openai" | "client" | "fetch"> {
+  models: (BaseChatModel | EnsembleQueryModelMember)[];
+  // whether the text of two outputs is equivalent, defaults to equality of
+  // the parsed JSON when a response_format is set, else of the text
+  equals?: (a: string, b: string) => boolean;
+}
+
+// a QueryObjectiveAI which votes locally, across LangChain chat models,
+// instead of calling ObjectiveAI, for air-gapped and self-hosted deployments
+// every model answers the messages, and outputs with equivalent text and
+// tool calls are grouped
+// the first output of each group is a generate choice, whose confidence is
+// the group's share of the weights, and every model votes for its group
+// tools are bound to the models, and the response_format is passed on as a
+// call option, which OpenAI-compatible models take, while other models must
+// be asked for JSON in the prompt
+// models which fail, after their own retries, are reported as choices with
+// an error, and without the output they streamed before failing, and the call
+// only fails if every model does, without retrying
+export class EnsembleQueryModel extends QueryObjectiveAI {
+  static lc_name() {
+    return "EnsembleQueryModel";
+  }
+
+  lc_serializable = false;
+
+  models: Required<EnsembleQueryModelMember>[];
+
+  equals?: (a: string, b: string) => boolean;
+
+  constructor(fields: EnsembleQueryModelParams) {
+    super(withDefaultQueryModel(fields, "ensemble"));
+    if (fields.models.length === 0) {
+      throw new ObjectiveAIError(
+        "EnsembleQueryModel requires at least 1 model."
+      );
+    }
+    this.models = fields.models.map((member) => {
+      const {
+        model,
+        weight = 1,
+        name,
+      } = isBaseChatModel(member) ? { model: member } : member;
+      if (!(weight > 0)) {
+        throw new ObjectiveAIError(
+          `EnsembleQueryModel weights must be positive, got ${weight}.`
+        );
+      }
+      return { model, weight, name: name ?? model.getName() };
+    });
+    this.equals = fields.equals;
+  }
+
+  protected async createCompletion(
+    _openaiOptions: ClientOptions,
+    chatCompletionCreateParams: Query.Completions.Request.ChatCompletionCreateParamsNonStreaming,
+    requestOptions: QueryRequestOptions,
+    messages: BaseMessage[],
+    runManager?: CallbackManagerForLLMRun
+  ): Promise<Query.Completions.Response.Unary.ChatCompletion> {
+    const id = ensembleCompletionId();
+    const results = await Promise.allSettled(
+      this.models.map(({ model }, index) =>
+        this.bindMember(model, chatCompletionCreateParams).invoke(messages, {
+          ...requestOptions,
+          callbacks: memberCallbacks(runManager, index),
+        })
+      )
+    );
+    const completion = this.vote(
+      id,
+      chatCompletionCreateParams,
+      results.map((result) =>
+        result.status === "fulfilled"
+          ? { message: result.value }
+          : { error: result.reason }
+      )
+    );
+    // unary responses are ranked by confidence
+    return rankQueryCompletionChoices(completion);
+  }
+
+  protected async createCompletionStream(
+    _openaiOptions: ClientOptions,
+    chatCompletionCreateParams: Query.Completions.Request.ChatCompletionCreateParamsStreaming,
+    requestOptions: QueryRequestOptions,
+    messages: BaseMessage[],
+    runManager?: CallbackManagerForLLMRun
+  ): Promise<
+    AsyncIterable<Query.Completions.Response.Streaming.ChatCompletionChunk>
+  > {
+    return this.streamMembers(
+      chatCompletionCreateParams,
+      requestOptions,
+      messages,
+      runManager
+    );
+  }
+
+  protected async *streamMembers(
+    chatCompletionCreateParams: Query.Completions.Request.ChatCompletionCreateParamsStreaming,
+    requestOptions: QueryRequestOptions,
+    messages: BaseMessage[],
+    runManager?: CallbackManagerForLLMRun
+  ): AsyncGenerator<Query.Completions.Response.Streaming.ChatCompletionChunk> {
+    const id = ensembleCompletionId();
+    const created = Math.floor(Date.now() / 1000);
+    const results: EnsembleMemberResult[] = this.models.map(() => ({
+      message: new AIMessageChunk(""),
+    }));
+    const streams = this.models.map(({ model }, index) =>
+      memberStream(
+        index,
+        this.bindMember(model, chatCompletionCreateParams).stream(messages, {
+          ...requestOptions,
+          callbacks: memberCallbacks(runManager, index),
+        })
+      )
+    );
+    for await (const { index, chunk, error } of interleave(streams)) {
+      const result = results[index];
+      if (error !== undefined || chunk === undefined) {
+        results[index] = { error };
+      } else if (result.message !== undefined) {
+        result.message = (result.message as AIMessageChunk).concat(chunk);
+        const content = chunk.text;
+        if (content !== "") {
+          const choice = ensembleChoiceMetadata(
+            id,
+            created,
+            this.models[index].name,
+            index,
+            result
+          );
+          yield {
+            id,
+            choices: [
+              {
+                ...choice,
+                finish_reason: null,
+                delta: { role: "assistant", content },
+              },
+            ],
+            created,
+            model: chatCompletionCreateParams.model,
+            object: "chat.completion.chunk",
+          };
+        }
+      }
+    }
+    // the content was streamed, the final chunks carry the tool calls and
+    // the votes
+    const completion = this.vote(id, chatCompletionCreateParams, results);
+    for (const { message, ...choice } of completion.choices) {
+      yield {
+        id,
+        choices: [
+          {
+            ...choice,
+            delta: {
+              tool_calls: message.tool_calls?.map((toolCall, index) => ({
+                ...toolCall,
+                index,
+              })),
+            },
+          },
+        ],
+        created,
+        model: completion.model,
+        object: "chat.completion.chunk",
+      };
+    }
+    if (
+      chatCompletionCreateParams.stream_options?.include_usage &&
+      completion.usage !== undefined
+    ) {
+      yield {
+        id,
+        choices: [],
+        created,
+        model: completion.model,
+        object: "chat.completion.chunk",
+        usage: completion.usage,
+      };
+    }
+  }
+
+  // binds the tools of the request, if any, to a model which supports them,
+  // and the response_format, if any, as a call option
+  protected bindMember(
+    model: BaseChatModel,
+    chatCompletionCreateParams: Query.Completions.Request.ChatCompletionCreateParamsBase
+  ) {
+    const { tools, tool_choice, response_format } = chatCompletionCreateParams;
+    const bound =
+      tools === undefined ||
+      tools === null ||
+      tools.length === 0 ||
+      model.bindTools === undefined
+        ? model
+        : model.bindTools(
+            tools,
+            tool_choice !== undefined && tool_choice !== null
+              ? { tool_choice: tool_choice as string | Record<string, unknown> }
+              : undefined
+          );
+    if (response_format === undefined || response_format === null) {
+      return bound;
+    }
+    return bound.withConfig({
+      response_format,
+    } as Partial<BaseChatModelCallOptions>);
+  }
+
+  // whether the outputs of two choices are equivalent
+  protected equivalent(
+    a: Query.Completions.Response.Unary.Choice,
+    b: Query.Completions.Response.Unary.Choice,
+    chatCompletionCreateParams: Query.Completions.Request.ChatCompletionCreateParamsBase
+  ): boolean {
+    const equals =
+      this.equals ??
+      (isJsonResponseFormat(chatCompletionCreateParams.response_format)
+        ? jsonEqual
+        : (x: string, y: string) => x === y);
+    return (
+      equals(a.message.content ?? "", b.message.content ?? "") &&
+      structuralEqual(
+        parsedToolCalls(a.message.tool_calls),
+        parsedToolCalls(b.message.tool_calls)
+      )
+    );
+  }
+
+  // the choices of every model, voted on
+  protected vote(
+    id: string,
+    chatCompletionCreateParams: Query.Completions.Request.ChatCompletionCreateParamsBase,
+    results: EnsembleMemberResult[]
+  ): Query.Completions.Response.Unary.ChatCompletion {
+    const created = Math.floor(Date.now() / 1000);
+    const choices = results.map((result, index) =>
+      ensembleChoice(id, created, this.models[index].name, index, result)
+    );
+    // the models have retried on their own already
+    if (results.every(({ message }) => message === undefined)) {
+      throw new ObjectiveAIResponseError(
+        "Every model of the EnsembleQueryModel failed.",
+        {
+          raw: results.map(({ error }) => `${error}`).join("\n"),
+          cause: results[0]?.error,
+          retryable: false,
+        }
+      );
+    }
+    // groups of equivalent choices, by the index of their first choice
+    const groups = new Map<number, number[]>();
+    for (const choice of choices) {
+      if (choice.generate_id === null) {
+        continue;
+      }
+      const first = [...groups.keys()].find((i) =>
+        this.equivalent(choices[i], choice, chatCompletionCreateParams)
+      );
+      if (first === undefined) {
+        groups.set(choice.index, [choice.index]);
+      } else {
+        groups.get(first)?.push(choice.index);
+      }
+    }
+    const weight = (indices: number[]) =>
+      indices.reduce((sum, i) => sum + this.models[i].weight, 0);
+    const total = weight([...groups.values()].flat());
+    for (const [first, indices] of groups) {
+      choices[first].confidence = weight(indices) / total;
+      for (const i of indices) {
+        choices[i].confidence_id = choices[first].generate_id;
+        choices[i].confidence_weight = this.models[i].weight;
+      }
+    }
+    return {
+      id,
+      choices,
+      created,
+      model: chatCompletionCreateParams.model,
+      object: "chat.completion",
+      usage: sumQueryUsage(
+        choices.flatMap(({ completion_metadata: { usage } }) =>
+          usage !== undefined && usage !== null ? [usage] : []
+        )
+      ),
+    };
+  }
+}
+
+// the message a model answered with, or the error it failed with
+interface EnsembleMemberResult {
+  message?: BaseMessage;
+  error?: unknown;
+}
+
+// callbacks of the run of a member, nested under the run of the ensemble, as
+// LLM run managers have no getChild
+function memberCallbacks(
+  runManager: CallbackManagerForLLMRun | undefined,
+  index: number
+): CallbackManager | undefined {
+  if (runManager === undefined) {
+    return undefined;
+  }
+  const manager = new CallbackManager(runManager.runId);
+  manager.setHandlers(runManager.handlers);
+  manager.addTags([`member:${index}`], false);
+  return manager;
+}
+
+function isBaseChatModel(value: unknown): value is BaseChatModel {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    "_llmType" in value &&
+    typeof value._llmType === "function"
+  );
+}
+
+function ensembleCompletionId(): string {
+  return `ensemble-${Date.now().toString(36)}-${Math.random()
+    .toString(36)
+    .slice(2, 10)}`;
+}
+
+function isJsonResponseFormat(
+  response_format: Chat.Completions.Request.ResponseFormat | null | undefined
+): boolean {
+  return (
+    response_format?.type === "json_object" ||
+    response_format?.type === "json_schema"
+  );
+}
+
+// outputs which are not JSON are only equal to the same text
+function jsonEqual(a: string, b: string): boolean {
+  try {
+    return structuralEqual(
+      parseJsonMarkdown(a, JSON.parse),
+      parseJsonMarkdown(b, JSON.parse)
+    );
+  } catch {
+    return a === b;
+  }
+}
+
+// tool calls with parsed arguments, so that argument order does not matter
+function parsedToolCalls(
+  toolCalls: Chat.Completions.Response.Unary.ToolCall[] | undefined
+): unknown[] {
+  return (toolCalls ?? []).map(({ function: { name, arguments: args } }) => {
+    try {
+      return { name, args: JSON.parse(args) };
+    } catch {
+      return { name, args };
+    }
+  });
+}
+
+// the choice of a model, before the vote
+function ensembleChoice(
+  id: string,
+  created: number,
+  model: string,
+  index: number,
+  result: EnsembleMemberResult
+): Query.Completions.Response.Unary.Choice {
+  const { message } = result;
+  const tool_calls =
+    message !== undefined && isAIMessage(message)
+      ? message.tool_calls?.map((toolCall, i) => ({
+          type: "function" as const,
+          id: toolCall.id ?? `${id}-call-${index}-${i}`,
+          function: {
+            name: toolCall.name,
+            arguments: JSON.stringify(toolCall.args),
+          },
+        }))
+      : undefined;
+  let finish_reason: Chat.Completions.Response.FinishReason = "stop";
+  if (message === undefined) {
+    finish_reason = "error";
+  } else if (tool_calls !== undefined && tool_calls.length > 0) {
+    finish_reason = "tool_calls";
+  }
+  return {
+    ...ensembleChoiceMetadata(id, created, model, index, result),
+    message: {
+      role: "assistant",
+      content: message !== undefined ? message.text : null,
+      refusal: null,
+      tool_calls:
+        tool_calls !== undefined && tool_calls.length > 0
+          ? tool_calls
+          : undefined,
+    },
+    finish_reason,
+  };
+}
+
+function ensembleChoiceMetadata(
+  id: string,
+  created: number,
+  model: string,
+  index: number,
+  { message, error }: EnsembleMemberResult
+): Omit<Query.Completions.Response.Unary.Choice, "message" | "finish_reason"> {
+  const usage =
+    message !== undefined && isAIMessage(message)
+      ? message.usage_metadata
+      : undefined;
+  return {
+    index,
+    generate_id: message !== undefined ? `${id}-generate-${index}` : null,
+    confidence_id: null,
+    confidence_weight: null,
+    confidence: null,
+    error,
+    model,
+    model_index: index,
+    completion_metadata: {
+      id: message?.id ?? `${id}-${index}`,
+      created,
+      model,
+      usage:
+        usage !== undefined
+          ? {
+              prompt_tokens: usage.input_tokens,
+              completion_tokens: usage.output_tokens,
+              total_tokens: usage.total_tokens,
+            }
+          : undefined,
+    },
+  };
+}
+
+interface EnsembleMemberEvent {
+  index: number;
+  chunk?: AIMessageChunk;
+  error?: unknown;
+}
+
+// the chunks of a model's stream, ending with its error if it fails
+async function* memberStream(
+  index: number,
+  stream: Promise<AsyncIterable<AIMessageChunk>>
+): AsyncGenerator<EnsembleMemberEvent> {
+  try {
+    for await (const chunk of await stream) {
+      yield { index, chunk };
+    }
+  } catch (error) {
+    yield { index, error };
+  }
+}
+
+// the items of every iterable, in the order they arrive
+async function* interleave<T>(
+  iterables: AsyncIterable<T>[]
+): AsyncGenerator<T> {
+  const iterators = iterables.map((iterable) =>
+    iterable[Symbol.asyncIterator]()
+  );
+  const next = (i: number) =>
+    iterators[i]
+      .next()
+      .then((result): [number, IteratorResult<T>] => [i, result]);
+  const pending = new Map(iterators.map((_, i) => [i, next(i)]));
+  try {
+    while (pending.size > 0) {
+      const [i, result] = await Promise.race(pending.values());
+      if (result.done) {
+        pending.delete(i);
+      } else {
+        pending.set(i, next(i));
+        yield result.value;
+      }
+    }
+  } finally {
+    // stops the streams which are still running, e.g. if aborted, without
+    // waiting for their pending chunks
+    for (const i of pending.keys()) {
+      void iterators[i].return?.();
+    }
+  }
+}
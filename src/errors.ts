@@ -0,0 +1,219 @@
+export interface ObjectiveAIErrorFields {
+  // whether the same call may succeed if retried
+  retryable?: boolean;
+  cause?: unknown;
+}
+
+// base of every error thrown by the ObjectiveAI integration
+export class ObjectiveAIError extends Error {
+  readonly lc_objectiveai_error = true;
+
+  retryable: boolean;
+
+  // the underlying error, e.g. from the OpenAI SDK
+  cause?: unknown;
+
+  constructor(message: string, fields?: ObjectiveAIErrorFields) {
+    super(message);
+    this.name = "ObjectiveAIError";
+    this.retryable = fields?.retryable ?? false;
+    this.cause = fields?.cause;
+  }
+
+  static isInstance(error: unknown): error is ObjectiveAIError {
+    return (
+      typeof error === "object" &&
+      error !== null &&
+      "lc_objectiveai_error" in error &&
+      error.lc_objectiveai_error === true
+    );
+  }
+}
+
+export interface ObjectiveAIAPIErrorFields extends ObjectiveAIErrorFields {
+  // HTTP status, undefined when no response was received
+  status?: number;
+  // raw body of the error response
+  raw?: string;
+}
+
+// the upstream request failed
+// 408, 409, 429 and 5xx responses and connection failures are retryable
+export class ObjectiveAIAPIError extends ObjectiveAIError {
+  status?: number;
+
+  raw?: string;
+
+  constructor(message: string, fields?: ObjectiveAIAPIErrorFields) {
+    super(message, {
+      ...fields,
+      retryable: fields?.retryable ?? isRetryableStatus(fields?.status),
+    });
+    this.name = "ObjectiveAIAPIError";
+    this.status = fields?.status;
+    this.raw = fields?.raw;
+  }
+}
+
+// the upstream request timed out, always retryable
+export class ObjectiveAITimeoutError extends ObjectiveAIAPIError {
+  constructor(message: string, fields?: ObjectiveAIAPIErrorFields) {
+    super(message, { ...fields, retryable: true });
+    this.name = "ObjectiveAITimeoutError";
+  }
+}
+
+export interface ObjectiveAIResponseErrorFields extends ObjectiveAIErrorFields {
+  // raw response text
+  raw: string;
+}
+
+// the response could not be used, e.g. it had no choices, no choice had a
+// confidence, or it is not an ObjectiveAI Query response at all
+export class ObjectiveAIResponseError extends ObjectiveAIError {
+  raw: string;
+
+  constructor(message: string, fields: ObjectiveAIResponseErrorFields) {
+    super(message, fields);
+    this.name = "ObjectiveAIResponseError";
+    this.raw = fields.raw;
+  }
+}
+
+export interface ObjectiveAIMessageConversionErrorFields
+  extends ObjectiveAIErrorFields {
+  // index of the offending message in the input
+  message_index?: number;
+  // the offending content part or tool call
+  part?: unknown;
+}
+
+// a LangChain message could not be converted to an ObjectiveAI request
+// message, never retryable
+export class ObjectiveAIMessageConversionError extends ObjectiveAIError {
+  message_index?: number;
+
+  part?: unknown;
+
+  constructor(
+    message: string,
+    fields?: ObjectiveAIMessageConversionErrorFields
+  ) {
+    super(
+      fields?.message_index !== undefined
+        ? `${message} (message ${fields.message_index})`
+        : message,
+      { ...fields, retryable: false }
+    );
+    this.name = "ObjectiveAIMessageConversionError";
+    this.message_index = fields?.message_index;
+    this.part = fields?.part;
+  }
+}
+
+export interface BudgetExceededErrorFields {
+  max_cost: number;
+  spent: number;
+  // set when the call was refused beforehand, from the estimated cost
+  estimated_cost?: number;
+}
+
+export class BudgetExceededError extends ObjectiveAIError {
+  max_cost: number;
+
+  spent: number;
+
+  estimated_cost?: number;
+
+  constructor(message: string, fields: BudgetExceededErrorFields) {
+    super(message);
+    this.name = "BudgetExceededError";
+    this.max_cost = fields.max_cost;
+    this.spent = fields.spent;
+    this.estimated_cost = fields.estimated_cost;
+  }
+}
+
+function isRetryableStatus(status: number | undefined): boolean {
+  return (
+    status === undefined ||
+    status === 408 ||
+    status === 409 ||
+    status === 429 ||
+    status >= 500
+  );
+}
+
+// name of an error, from its class if Error.name is unset, as it is on the
+// OpenAI SDK errors, which are classified by shape rather than by class
+function errorName(error: unknown): string | undefined {
+  if (typeof error !== "object" || error === null) {
+    return undefined;
+  }
+  const { name, constructor } = error as {
+    name?: unknown;
+    constructor?: { name?: unknown };
+  };
+  if (typeof name === "string" && name !== "Error") {
+    return name;
+  }
+  return typeof constructor?.name === "string" ? constructor.name : undefined;
+}
+
+// an OpenAI SDK APIError, which has a status, unless no response was received
+function isOpenAIAPIError(
+  error: unknown
+): error is Error & { status: number | undefined; error: unknown } {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    "status" in error &&
+    "headers" in error &&
+    "error" in error &&
+    "message" in error &&
+    typeof error.message === "string"
+  );
+}
+
+// wraps OpenAI SDK errors in ObjectiveAI errors, classified as retryable or not
+// aborts are passed through as is
+export function toObjectiveAIError(error: unknown): unknown {
+  const name = errorName(error);
+  if (ObjectiveAIError.isInstance(error) || name === "APIUserAbortError") {
+    return error;
+  } else if (name === "APIConnectionTimeoutError" && isOpenAIAPIError(error)) {
+    return new ObjectiveAITimeoutError(error.message, { cause: error });
+  } else if (isOpenAIAPIError(error)) {
+    return new ObjectiveAIAPIError(error.message, {
+      status: error.status,
+      raw: error.error !== undefined ? JSON.stringify(error.error) : undefined,
+      cause: error,
+    });
+  } else {
+    return error;
+  }
+}
+
+export function isRetryableObjectiveAIError(error: unknown): boolean {
+  return ObjectiveAIError.isInstance(error) && error.retryable;
+}
+
+// AsyncCaller failed attempt handler, stops retrying on ObjectiveAI errors
+// which are not retryable and on aborts, and retries anything else
+export function objectiveAIFailedAttemptHandler(error: unknown): void {
+  if (ObjectiveAIError.isInstance(error)) {
+    if (!error.retryable) {
+      throw error;
+    }
+    return;
+  }
+  const e = error as { name?: string; message?: string };
+  if (
+    errorName(error) === "APIUserAbortError" ||
+    e?.name === "AbortError" ||
+    e?.message?.startsWith("Cancel") ||
+    e?.message?.startsWith("AbortError")
+  ) {
+    throw error;
+  }
+}
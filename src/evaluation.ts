@@ -0,0 +1,231 @@
+import {
+  RunnableConfig,
+  RunnableLike,
+  _coerceToRunnable,
+} from "@langchain/core/runnables";
+import {
+  QueryObjectiveAICalibrationSample,
+  QueryObjectiveAIIsotonicCalibrator,
+  QueryObjectiveAITemperatureCalibrator,
+} from "./calibration.js";
+import { ObjectiveAIError } from "./errors.js";
+import {
+  QueryObjectiveAIOutput,
+  QueryObjectiveAIOutputResult,
+  mergeQueryObjectiveAIOutputs,
+  structuralEqual,
+} from "./output_parser.js";
+
+export interface QueryObjectiveAIEvaluationExample<RunInput, T> {
+  input: RunInput;
+  // the expected output
+  label: T;
+}
+
+export interface QueryObjectiveAIEvaluationFields<T> {
+  // whether an output matches its label, defaults to structural equality
+  equals?: (output: T, label: T) => boolean;
+  // maximum number of examples run at once, defaults to 5
+  max_concurrency?: number;
+  // number of equal-width reliability bins, defaults to 10
+  bins?: number;
+  // fits a calibrator to the merged confidences of the predictions, to be
+  // attached to a QueryObjectiveAIConsensusOutputParser with the same equals
+  // rather than to the parser of each choice
+  calibration?: "temperature" | "isotonic";
+}
+
+export interface QueryObjectiveAIEvaluationPrediction<T> {
+  label: T;
+  // the winning output, undefined if the run failed or returned no output
+  output?: T;
+  confidence: number;
+  correct: boolean;
+  outputs: QueryObjectiveAIOutput<T>[];
+  error?: unknown;
+}
+
+export interface QueryObjectiveAIReliabilityBin {
+  lower: number;
+  upper: number;
+  count: number;
+  // null for empty bins
+  mean_confidence: number | null;
+  accuracy: number | null;
+}
+
+// accuracy over the predictions with a confidence of at least threshold
+export interface QueryObjectiveAISelectiveAccuracyPoint {
+  threshold: number;
+  // fraction of the predictions kept
+  coverage: number;
+  accuracy: number;
+}
+
+export interface QueryObjectiveAIEvaluationReport<T> {
+  predictions: QueryObjectiveAIEvaluationPrediction<T>[];
+  accuracy: number;
+  expected_calibration_error: number;
+  brier_score: number;
+  reliability: QueryObjectiveAIReliabilityBin[];
+  selective_accuracy: QueryObjectiveAISelectiveAccuracyPoint[];
+  calibrator?:
+    | QueryObjectiveAITemperatureCalibrator
+    | QueryObjectiveAIIsotonicCalibrator;
+}
+
+function mean(values: number[]): number {
+  return values.length > 0
+    ? values.reduce((sum, v) => sum + v, 0) / values.length
+    : 0;
+}
+
+export function reliabilityBins(
+  samples: QueryObjectiveAICalibrationSample[],
+  bins = 10
+): QueryObjectiveAIReliabilityBin[] {
+  if (!Number.isInteger(bins) || bins < 1) {
+    throw new ObjectiveAIError(
+      `Reliability bins must be a positive integer, got ${bins}.`
+    );
+  }
+  const grouped: QueryObjectiveAICalibrationSample[][] = Array.from(
+    { length: bins },
+    () => []
+  );
+  for (const sample of samples) {
+    // a confidence of 1 belongs to the last bin
+    const i = Math.min(
+      bins - 1,
+      Math.max(0, Math.floor(sample.confidence * bins))
+    );
+    grouped[i].push(sample);
+  }
+  return grouped.map((group, i) => ({
+    lower: i / bins,
+    upper: (i + 1) / bins,
+    count: group.length,
+    mean_confidence:
+      group.length > 0 ? mean(group.map(({ confidence }) => confidence)) : null,
+    accuracy:
+      group.length > 0
+        ? mean(group.map(({ correct }) => (correct ? 1 : 0)))
+        : null,
+  }));
+}
+
+// gap between confidence and accuracy of each bin, weighted by its size
+export function expectedCalibrationError(
+  samples: QueryObjectiveAICalibrationSample[],
+  bins = 10
+): number {
+  if (samples.length === 0) {
+    return 0;
+  }
+  return reliabilityBins(samples, bins).reduce(
+    (sum, bin) =>
+      sum +
+      (bin.count / samples.length) *
+        Math.abs((bin.mean_confidence ?? 0) - (bin.accuracy ?? 0)),
+    0
+  );
+}
+
+export function brierScore(
+  samples: QueryObjectiveAICalibrationSample[]
+): number {
+  return mean(
+    samples.map(
+      ({ confidence, correct }) => (confidence - (correct ? 1 : 0)) ** 2
+    )
+  );
+}
+
+// one point per distinct confidence, from the highest to the lowest
+export function selectiveAccuracy(
+  samples: QueryObjectiveAICalibrationSample[]
+): QueryObjectiveAISelectiveAccuracyPoint[] {
+  const sorted = [...samples].sort((a, b) => b.confidence - a.confidence);
+  const points: QueryObjectiveAISelectiveAccuracyPoint[] = [];
+  let correct = 0;
+  sorted.forEach((sample, i) => {
+    correct += sample.correct ? 1 : 0;
+    // predictions with the same confidence are kept or dropped together
+    if (sorted[i + 1]?.confidence !== sample.confidence) {
+      points.push({
+        threshold: sample.confidence,
+        coverage: (i + 1) / sorted.length,
+        accuracy: correct / (i + 1),
+      });
+    }
+  });
+  return points;
+}
+
+// runs a QueryObjectiveAI chain ending with a Query parser over a labeled
+// dataset, and measures how well its winning confidences are calibrated
+// outputs equal by equals are merged, as the consensus parser does, and the
+// prediction is the winning merged output
+// failed runs count as incorrect predictions with a confidence of 0
+export async function evaluateQueryObjectiveAI<RunInput, T>(
+  runnable: RunnableLike<RunInput, QueryObjectiveAIOutputResult<T>[]>,
+  dataset: QueryObjectiveAIEvaluationExample<RunInput, T>[],
+  fields?: QueryObjectiveAIEvaluationFields<T>,
+  config?: Partial<RunnableConfig>
+): Promise<QueryObjectiveAIEvaluationReport<T>> {
+  const equals = fields?.equals ?? structuralEqual;
+  const results = await _coerceToRunnable(runnable).batch(
+    dataset.map(({ input }) => input),
+    { ...config, maxConcurrency: fields?.max_concurrency ?? 5 },
+    { returnExceptions: true }
+  );
+  const predictions = results.map(
+    (result, i): QueryObjectiveAIEvaluationPrediction<T> => {
+      const { label } = dataset[i];
+      if (!Array.isArray(result)) {
+        return {
+          label,
+          confidence: 0,
+          correct: false,
+          outputs: [],
+          error: result,
+        };
+      }
+      // failures reported by "report-all" are not predictions
+      const outputs = mergeQueryObjectiveAIOutputs(
+        result.filter((r): r is QueryObjectiveAIOutput<T> => "output" in r),
+        equals
+      );
+      const top = outputs[0];
+      if (top === undefined) {
+        return { label, confidence: 0, correct: false, outputs };
+      }
+      return {
+        label,
+        output: top.output,
+        confidence: top.confidence,
+        correct: equals(top.output, label),
+        outputs,
+      };
+    }
+  );
+  const samples = predictions.map(({ confidence, correct }) => ({
+    confidence,
+    correct,
+  }));
+  const bins = fields?.bins ?? 10;
+  const report: QueryObjectiveAIEvaluationReport<T> = {
+    predictions,
+    accuracy: mean(samples.map(({ correct }) => (correct ? 1 : 0))),
+    expected_calibration_error: expectedCalibrationError(samples, bins),
+    brier_score: brierScore(samples),
+    reliability: reliabilityBins(samples, bins),
+    selective_accuracy: selectiveAccuracy(samples),
+  };
+  if (fields?.calibration === "temperature") {
+    report.calibrator = QueryObjectiveAITemperatureCalibrator.fit(samples);
+  } else if (fields?.calibration === "isotonic") {
+    report.calibrator = QueryObjectiveAIIsotonicCalibrator.fit(samples);
+  }
+  return report;
+}
@@ -0,0 +1,405 @@
+import { CallbackManagerForChainRun } from "@langchain/core/callbacks/manager";
+import { ChatPromptTemplate } from "@langchain/core/prompts";
+import {
+  Runnable,
+  RunnableConfig,
+  patchConfig,
+} from "@langchain/core/runnables";
+import { InputValues } from "@langchain/core/utils/types";
+import { z } from "zod";
+import { QueryObjectiveAI } from "./chat_models.js";
+import { ObjectiveAIError } from "./errors.js";
+import {
+  QueryObjectiveAIJsonSchemaOutputParser,
+  QueryObjectiveAIOutput,
+  tallyQueryObjectiveAIVotes,
+  topQueryObjectiveAIVote,
+} from "./output_parser.js";
+
+export interface QueryObjectiveAIEvaluatorInput {
+  // the input the prediction was generated from
+  input?: string;
+  prediction: string;
+  reference?: string;
+}
+
+export interface QueryObjectiveAIPairwiseEvaluatorInput
+  extends QueryObjectiveAIEvaluatorInput {
+  prediction_b: string;
+}
+
+export interface QueryObjectiveAICorrectnessEvaluatorInput
+  extends QueryObjectiveAIEvaluatorInput {
+  reference: string;
+}
+
+export interface QueryObjectiveAIEvaluatorJudgment {
+  reasoning: string;
+  verdict: string;
+}
+
+export interface QueryObjectiveAIEvaluatorChoice
+  extends QueryObjectiveAIEvaluatorJudgment {
+  confidence: number;
+}
+
+// compatible with the EvaluationResult of LangSmith
+export interface QueryObjectiveAIEvaluatorResult {
+  key: string;
+  // undefined if the evaluation failed
+  score?: number;
+  // the most probable verdict
+  value?: string;
+  // the verdict and reasoning of every choice, or the error
+  comment?: string;
+  evaluatorInfo?: {
+    // probability of every verdict, 0 for verdicts no choice gave
+    distribution: Record<string, number>;
+    choices: QueryObjectiveAIEvaluatorChoice[];
+  };
+}
+
+export interface BaseQueryObjectiveAIEvaluatorFields {
+  model: QueryObjectiveAI;
+  // feedback key of the results
+  key?: string;
+  prompt?: ChatPromptTemplate;
+}
+
+// titled sections of the example, leaving out those which are not set
+function formatExample(sections: [string, string | undefined][]): string {
+  return sections
+    .filter(([, value]) => value !== undefined)
+    .map(([title, value]) => `${title}:\n${value}`)
+    .join("\n\n");
+}
+
+// grades an example with a Query, each choice giving its reasoning and a
+// verdict, and scores it from the distribution of the verdicts
+// choices which fail to parse are left out of the distribution
+// prompts take {example}, the formatted example, and the fields of the
+// example itself, which are empty strings when not set
+export abstract class BaseQueryObjectiveAIEvaluator<
+  RunInput extends QueryObjectiveAIEvaluatorInput
+> extends Runnable<RunInput, QueryObjectiveAIEvaluatorResult> {
+  lc_namespace = ["langchain", "runnables", "objectiveai"];
+
+  model: QueryObjectiveAI;
+
+  key: string;
+
+  prompt: ChatPromptTemplate;
+
+  abstract verdicts: [string, ...string[]];
+
+  constructor(
+    fields: BaseQueryObjectiveAIEvaluatorFields & {
+      key: string;
+      prompt: ChatPromptTemplate;
+    }
+  ) {
+    super(fields);
+    this.model = fields.model;
+    this.key = fields.key;
+    this.prompt = fields.prompt;
+  }
+
+  abstract formatExample(input: RunInput): string;
+
+  abstract score(distribution: Record<string, number>): number;
+
+  promptValues(input: RunInput): InputValues {
+    return {
+      input: "",
+      reference: "",
+      ...input,
+      example: this.formatExample(input),
+    };
+  }
+
+  async _invoke(
+    input: RunInput,
+    config?: Partial<RunnableConfig>,
+    runManager?: CallbackManagerForChainRun
+  ): Promise<QueryObjectiveAIEvaluatorResult> {
+    const parser = new QueryObjectiveAIJsonSchemaOutputParser(
+      z.object({
+        reasoning: z.string(),
+        verdict: z.enum(this.verdicts),
+      }),
+      { name: "judgment", strict: true, failure_policy: "best-valid" }
+    );
+    const chain = this.prompt
+      .pipe(
+        this.model.withConfig({ response_format: parser.getResponseFormat() })
+      )
+      .pipe(parser);
+    const outputs = await chain.invoke(
+      this.promptValues(input),
+      patchConfig(config, {
+        callbacks: runManager?.getChild("judge"),
+      })
+    );
+    return this.judge(outputs);
+  }
+
+  judge(
+    outputs: QueryObjectiveAIOutput<QueryObjectiveAIEvaluatorJudgment>[]
+  ): QueryObjectiveAIEvaluatorResult {
+    const distribution = tallyQueryObjectiveAIVotes(
+      this.verdicts,
+      outputs,
+      ({ verdict }) => [verdict]
+    );
+    const value = topQueryObjectiveAIVote(distribution);
+    const choices = outputs.map(({ confidence, output }) => ({
+      confidence,
+      reasoning: output.reasoning,
+      verdict: output.verdict,
+    }));
+    return {
+      key: this.key,
+      score: this.score(distribution),
+      value,
+      comment: choices
+        .map(
+          ({ confidence, reasoning, verdict }) =>
+            `${verdict} (${confidence.toFixed(2)}): ${reasoning}`
+        )
+        .join("\n\n"),
+      evaluatorInfo: { distribution, choices },
+    };
+  }
+
+  async invoke(
+    input: RunInput,
+    config?: Partial<RunnableConfig>
+  ): Promise<QueryObjectiveAIEvaluatorResult> {
+    return this._callWithConfig(this._invoke, input, config);
+  }
+}
+
+const CRITERIA_PROMPT = ChatPromptTemplate.fromMessages([
+  [
+    "system",
+    "Grade the response against the following criteria:\n{criteria}\n\nReason step by step about whether the response meets every criterion, then give your verdict: Y if it does, N if it does not.",
+  ],
+  ["human", "{example}"],
+]);
+
+export interface QueryObjectiveAICriteriaEvaluatorFields
+  extends BaseQueryObjectiveAIEvaluatorFields {
+  // a description of the criteria, or the description of each criterion by
+  // name, all of which must be met
+  criteria: string | Record<string, string>;
+}
+
+// scores the probability that the prediction meets the criteria, the key
+// defaults to the name of the criterion if there is one, else "criteria"
+export class QueryObjectiveAICriteriaEvaluator<
+  RunInput extends QueryObjectiveAIEvaluatorInput = QueryObjectiveAIEvaluatorInput
+> extends BaseQueryObjectiveAIEvaluator<RunInput> {
+  static lc_name() {
+    return "QueryObjectiveAICriteriaEvaluator";
+  }
+
+  verdicts: [string, ...string[]] = ["Y", "N"];
+
+  criteria: string | Record<string, string>;
+
+  constructor(fields: QueryObjectiveAICriteriaEvaluatorFields) {
+    const names =
+      typeof fields.criteria === "string" ? [] : Object.keys(fields.criteria);
+    if (names.length === 0 && typeof fields.criteria !== "string") {
+      throw new ObjectiveAIError(
+        "QueryObjectiveAICriteriaEvaluator requires criteria."
+      );
+    }
+    super({
+      ...fields,
+      key: fields.key ?? (names.length === 1 ? names[0] : "criteria"),
+      prompt: fields.prompt ?? CRITERIA_PROMPT,
+    });
+    this.criteria = fields.criteria;
+  }
+
+  formatCriteria(): string {
+    return typeof this.criteria === "string"
+      ? this.criteria
+      : Object.entries(this.criteria)
+          .map(([name, description]) => `- ${name}: ${description}`)
+          .join("\n");
+  }
+
+  formatExample(input: RunInput): string {
+    return formatExample([
+      ["Input", input.input],
+      ["Response", input.prediction],
+      ["Reference", input.reference],
+    ]);
+  }
+
+  promptValues(input: RunInput): InputValues {
+    return { ...super.promptValues(input), criteria: this.formatCriteria() };
+  }
+
+  score(distribution: Record<string, number>): number {
+    return distribution.Y;
+  }
+}
+
+const PAIRWISE_PROMPT = ChatPromptTemplate.fromMessages([
+  [
+    "system",
+    "Compare the two responses on the following criteria:\n{criteria}\n\nReason step by step about which response is better, then give your verdict: A if response A is better, B if response B is better, or tie if neither is.",
+  ],
+  ["human", "{example}"],
+]);
+
+export interface QueryObjectiveAIPairwiseEvaluatorFields
+  extends BaseQueryObjectiveAIEvaluatorFields {
+  // defaults to helpfulness, correctness and relevance to the input
+  criteria?: string;
+}
+
+// scores the probability that prediction is preferred to prediction_b, a tie
+// counting as half a preference, the key defaults to "preference"
+export class QueryObjectiveAIPairwiseEvaluator<
+  RunInput extends QueryObjectiveAIPairwiseEvaluatorInput = QueryObjectiveAIPairwiseEvaluatorInput
+> extends BaseQueryObjectiveAIEvaluator<RunInput> {
+  static lc_name() {
+    return "QueryObjectiveAIPairwiseEvaluator";
+  }
+
+  verdicts: [string, ...string[]] = ["A", "B", "tie"];
+
+  criteria = "Helpfulness, correctness and relevance to the input.";
+
+  constructor(fields: QueryObjectiveAIPairwiseEvaluatorFields) {
+    super({
+      ...fields,
+      key: fields.key ?? "preference",
+      prompt: fields.prompt ?? PAIRWISE_PROMPT,
+    });
+    this.criteria = fields.criteria ?? this.criteria;
+  }
+
+  formatExample(input: RunInput): string {
+    return formatExample([
+      ["Input", input.input],
+      ["Response A", input.prediction],
+      ["Response B", input.prediction_b],
+      ["Reference", input.reference],
+    ]);
+  }
+
+  promptValues(input: RunInput): InputValues {
+    return { ...super.promptValues(input), criteria: this.criteria };
+  }
+
+  score(distribution: Record<string, number>): number {
+    return distribution.A + distribution.tie / 2;
+  }
+}
+
+const CORRECTNESS_PROMPT = ChatPromptTemplate.fromMessages([
+  [
+    "system",
+    "Grade whether the response is correct, given the reference answer. Only whether the response agrees with the reference matters, not its wording or level of detail. Reason step by step, then give your verdict: CORRECT or INCORRECT.",
+  ],
+  ["human", "{example}"],
+]);
+
+// scores the probability that the prediction agrees with the reference, the
+// key defaults to "correctness"
+export class QueryObjectiveAICorrectnessEvaluator<
+  RunInput extends QueryObjectiveAICorrectnessEvaluatorInput = QueryObjectiveAICorrectnessEvaluatorInput
+> extends BaseQueryObjectiveAIEvaluator<RunInput> {
+  static lc_name() {
+    return "QueryObjectiveAICorrectnessEvaluator";
+  }
+
+  verdicts: [string, ...string[]] = ["CORRECT", "INCORRECT"];
+
+  constructor(fields: BaseQueryObjectiveAIEvaluatorFields) {
+    super({
+      ...fields,
+      key: fields.key ?? "correctness",
+      prompt: fields.prompt ?? CORRECTNESS_PROMPT,
+    });
+  }
+
+  formatExample(input: RunInput): string {
+    return formatExample([
+      ["Input", input.input],
+      ["Response", input.prediction],
+      ["Reference", input.reference],
+    ]);
+  }
+
+  score(distribution: Record<string, number>): number {
+    return distribution.CORRECT;
+  }
+}
+
+export interface QueryObjectiveAIEvaluatorsFields {
+  // maximum number of examples evaluated at once by each evaluator,
+  // defaults to 5
+  max_concurrency?: number;
+}
+
+export interface QueryObjectiveAIEvaluatorsReport {
+  // the result of every evaluator, for each example
+  results: QueryObjectiveAIEvaluatorResult[][];
+  // mean score of each key, over the examples it did not fail on
+  scores: Record<string, number>;
+}
+
+// runs every evaluator over a dataset, without LangSmith
+// failed evaluations are reported in the comment of a result without score
+// the evaluators must have distinct keys, as their scores are reported by key
+export async function runQueryObjectiveAIEvaluators<
+  RunInput extends QueryObjectiveAIEvaluatorInput
+>(
+  evaluators: BaseQueryObjectiveAIEvaluator<RunInput>[],
+  dataset: RunInput[],
+  fields?: QueryObjectiveAIEvaluatorsFields,
+  config?: Partial<RunnableConfig>
+): Promise<QueryObjectiveAIEvaluatorsReport> {
+  const keys = evaluators.map(({ key }) => key);
+  const duplicates = keys.filter((key, i) => keys.indexOf(key) !== i);
+  if (duplicates.length > 0) {
+    throw new ObjectiveAIError(
+      `runQueryObjectiveAIEvaluators requires evaluators with distinct keys, got ${[
+        ...new Set(duplicates),
+      ]
+        .map((key) => `"${key}"`)
+        .join(", ")} more than once. Set the key of each evaluator.`
+    );
+  }
+  const results: QueryObjectiveAIEvaluatorResult[][] = dataset.map(() => []);
+  const scores: Record<string, number> = {};
+  for (const evaluator of evaluators) {
+    const evaluated = await evaluator.batch(
+      dataset,
+      { ...config, maxConcurrency: fields?.max_concurrency ?? 5 },
+      { returnExceptions: true }
+    );
+    const keyScores: number[] = [];
+    evaluated.forEach((result, i) => {
+      if ("key" in result) {
+        results[i].push(result);
+        if (result.score !== undefined) {
+          keyScores.push(result.score);
+        }
+      } else {
+        results[i].push({ key: evaluator.key, comment: `${result}` });
+      }
+    });
+    if (keyScores.length > 0) {
+      scores[evaluator.key] =
+        keyScores.reduce((sum, score) => sum + score, 0) / keyScores.length;
+    }
+  }
+  return { results, scores };
+}
@@ -0,0 +1,4 @@
+// modules by serialized namespace, to be passed as the importMap of load
+export * as chat_models__objectiveai from "./chat_models.js";
+export * as output_parsers__objectiveai from "./output_parser.js";
+export * as calibration__objectiveai from "./calibration.js";
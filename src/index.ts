@@ -1,2 +1,16 @@
 export * from "./chat_models.js";
 export * from "./output_parser.js";
+export * from "./confidence_router.js";
+export * from "./classifier.js";
+export * from "./document_compressors.js";
+export * from "./budget.js";
+export * from "./callbacks.js";
+export * from "./errors.js";
+export * from "./presets.js";
+export * from "./testing.js";
+export * from "./calibration.js";
+export * from "./evaluation.js";
+export * from "./evaluators.js";
+export * from "./ranker.js";
+export * from "./ensemble.js";
+export * as importMap from "./import_map.js";
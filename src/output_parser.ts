@@ -1,36 +1,46 @@
-import { Serializable } from "@langchain/core/load/serializable";
+import { Callbacks } from "@langchain/core/callbacks/manager";
+import { Serializable, Serialized } from "@langchain/core/load/serializable";
+import { BaseMessage } from "@langchain/core/messages";
 import {
-  BaseOutputParser,
+  BaseCumulativeTransformOutputParser,
+  BaseCumulativeTransformOutputParserInput,
+  OutputParserException,
   StructuredOutputParser,
+  parseJsonMarkdown,
 } from "@langchain/core/output_parsers";
+import { ChatGeneration, Generation } from "@langchain/core/outputs";
+import {
+  JSONSchema,
+  Validator,
+  toJsonSchema,
+} from "@langchain/core/utils/json_schema";
+import { compare, type Operation } from "@langchain/core/utils/json_patch";
 import {
   InferInteropZodOutput,
   InteropZodType,
+  isInteropZodSchema,
 } from "@langchain/core/utils/types";
+import { Chat } from "objectiveai";
 import { z } from "zod";
+import { ObjectiveAIError, ObjectiveAIResponseError } from "./errors.js";
 
 export interface QueryObjectiveAIOutput<T> {
   confidence: number;
   output: T;
 }
 
-function throwNotObjectiveAIResponseError(): never {
-  throw new Error(
-    "ObjectiveAI Query parser should only be used with an ObjectiveAI Query response."
+function throwNotObjectiveAIResponseError(raw: unknown): never {
+  throw new ObjectiveAIResponseError(
+    "ObjectiveAI Query parser should only be used with an ObjectiveAI Query response.",
+    { raw: typeof raw === "string" ? raw : JSON.stringify(raw) ?? "" }
   );
 }
 
-function parseObjectiveAIResponse(
-  text: string
+function parseObjectiveAIOutputs(
+  parsed: unknown
 ): QueryObjectiveAIOutput<string>[] {
-  let parsed: unknown;
-  try {
-    parsed = JSON.parse(text);
-  } catch {
-    throwNotObjectiveAIResponseError();
-  }
   if (!Array.isArray(parsed)) {
-    throwNotObjectiveAIResponseError();
+    throwNotObjectiveAIResponseError(parsed);
   }
   const content: QueryObjectiveAIOutput<string>[] = [];
   for (const item of parsed) {
@@ -47,157 +57,659 @@ function parseObjectiveAIResponse(
         output: item.output,
       });
     } else {
-      throwNotObjectiveAIResponseError();
+      throwNotObjectiveAIResponseError(parsed);
     }
   }
   return content;
 }
 
-export class QueryObjectiveAITextOutputParser extends BaseOutputParser<
-  QueryObjectiveAIOutput<string>[]
-> {
-  constructor() {
-    super();
+// accepts either the JSON-stringified content of an ObjectiveAI Query
+// response, or the message itself, in which case the outputs are read from
+// additional_kwargs when the content is the winning choice's text
+export function parseObjectiveAIResponse(
+  response: string | BaseMessage
+): QueryObjectiveAIOutput<string>[] {
+  if (typeof response !== "string") {
+    if (response.additional_kwargs.outputs !== undefined) {
+      return parseObjectiveAIOutputs(response.additional_kwargs.outputs);
+    } else if (typeof response.content === "string") {
+      return parseObjectiveAIResponse(response.content);
+    } else {
+      throwNotObjectiveAIResponseError(response.content);
+    }
   }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(response);
+  } catch {
+    throwNotObjectiveAIResponseError(response);
+  }
+  return parseObjectiveAIOutputs(parsed);
+}
+
+// what a parser does when a choice fails to parse
+// "strict-winner" throws if the winning choice fails, and omits other failures
+// "best-valid" omits all failures, and only throws if every choice fails
+// "report-all" returns every choice, failures included with their error
+export type QueryObjectiveAIFailurePolicy =
+  | "strict-winner"
+  | "best-valid"
+  | "report-all";
+
+export interface QueryObjectiveAIOutputError {
+  confidence: number;
+  error: unknown;
+  raw: string;
+}
+
+export type QueryObjectiveAIOutputResult<T> =
+  | QueryObjectiveAIOutput<T>
+  | QueryObjectiveAIOutputError;
+
+export type QueryObjectiveAIParsedOutputs<
+  T,
+  P extends QueryObjectiveAIFailurePolicy
+> = P extends "report-all"
+  ? QueryObjectiveAIOutputResult<T>[]
+  : QueryObjectiveAIOutput<T>[];
+
+// rescales confidences, and should be monotonic, so that the ranking of the
+// outputs is kept
+// parsers calibrate the confidence of each choice, and the consensus parser
+// the merged confidences, which evaluateQueryObjectiveAI calibrators are
+// fitted to
+export interface QueryObjectiveAICalibrator {
+  calibrate(confidence: number): number;
+}
+
+export interface QueryObjectiveAIOutputParserFields<
+  P extends QueryObjectiveAIFailurePolicy
+> extends BaseCumulativeTransformOutputParserInput {
+  failure_policy?: P;
+  calibrator?: QueryObjectiveAICalibrator;
+}
 
+export abstract class BaseQueryObjectiveAIOutputParser<
+  T,
+  P extends QueryObjectiveAIFailurePolicy = "strict-winner"
+> extends BaseCumulativeTransformOutputParser<
+  QueryObjectiveAIParsedOutputs<T, P>
+> {
   lc_namespace = ["langchain", "output_parsers", "objectiveai"];
 
-  parse(text: string): Promise<QueryObjectiveAIOutput<string>[]> {
-    return Promise.resolve(parseObjectiveAIResponse(text));
+  lc_serializable = true;
+
+  // constructor fields are snake_case, and must not be camelCased by load
+  get lc_aliases(): Record<string, string> {
+    return { failure_policy: "failure_policy" };
   }
 
-  getFormatInstructions(): string {
-    return "";
+  failure_policy: P;
+
+  calibrator?: QueryObjectiveAICalibrator;
+
+  constructor(
+    fields?: QueryObjectiveAIOutputParserFields<P>,
+    ..._args: never[]
+  ) {
+    super(fields);
+    this.failure_policy = fields?.failure_policy ?? ("strict-winner" as P);
+    this.calibrator = fields?.calibrator;
   }
-}
 
-export class QueryObjectiveAIJsonObjectOutputParser extends BaseOutputParser<
-  QueryObjectiveAIOutput<Record<string, unknown>>[]
-> {
-  structuredParser: StructuredOutputParser<any>;
+  calibrate(confidence: number): number {
+    return this.calibrator !== undefined
+      ? this.calibrator.calibrate(confidence)
+      : confidence;
+  }
 
-  constructor() {
-    super();
-    this.structuredParser = new StructuredOutputParser(
-      z.record(z.unknown()) as any
-    );
+  // parses the output of a single choice
+  abstract parseOutput(text: string): Promise<T>;
+
+  // parses the output of a single choice while it is streamed, undefined if
+  // there is nothing to emit yet
+  async parsePartialOutput(_text: string): Promise<T | undefined> {
+    return undefined;
   }
 
-  lc_namespace = ["langchain", "output_parsers", "objectiveai"];
+  async parseOutputs(
+    choices: QueryObjectiveAIOutput<string>[]
+  ): Promise<QueryObjectiveAIParsedOutputs<T, P>> {
+    const results: QueryObjectiveAIOutputResult<T>[] =
+      await this.parseUncalibratedOutputs(choices);
+    return results.map((result) => ({
+      ...result,
+      confidence: this.calibrate(result.confidence),
+    })) as QueryObjectiveAIParsedOutputs<T, P>;
+  }
 
-  async parse(
-    text: string
-  ): Promise<QueryObjectiveAIOutput<Record<string, unknown>>[]> {
-    const choicesRaw = parseObjectiveAIResponse(text);
-    // only throw for the winning choice, otherwise omit failures
-    const choicesPromises = choicesRaw.map(
-      async ({ confidence, output: rawOutput }, i) => {
-        if (i === 0) {
-          const output = (await this.structuredParser.parse(
-            rawOutput
-          )) as Record<string, unknown>;
-          return { confidence, output };
-        } else {
+  // parses the outputs as parseOutputs does, without calibrating them, so
+  // that a consensus parser calibrates them once merged
+  async parseUncalibratedOutputs(
+    choices: QueryObjectiveAIOutput<string>[]
+  ): Promise<QueryObjectiveAIParsedOutputs<T, P>> {
+    const results = await Promise.all(
+      choices.map(
+        async ({
+          confidence,
+          output: raw,
+        }): Promise<QueryObjectiveAIOutputResult<T>> => {
           try {
-            const output = (await this.structuredParser.parse(
-              rawOutput
-            )) as Record<string, unknown>;
-            return { confidence, output };
-          } catch {
-            return undefined;
+            return { confidence, output: await this.parseOutput(raw) };
+          } catch (error) {
+            return { confidence, error, raw };
           }
         }
-      }
+      )
+    );
+    if (this.failure_policy === "report-all") {
+      return results as QueryObjectiveAIParsedOutputs<T, P>;
+    }
+    const winner = results[0];
+    const outputs = results.filter(
+      (r): r is QueryObjectiveAIOutput<T> => "output" in r
     );
-    const choices = await Promise.all(choicesPromises);
-    return choices.filter((c) => c !== undefined);
+    if (
+      winner !== undefined &&
+      "error" in winner &&
+      (this.failure_policy === "strict-winner" || outputs.length === 0)
+    ) {
+      throw winner.error;
+    }
+    return outputs as QueryObjectiveAIParsedOutputs<T, P>;
+  }
+
+  async parse(text: string): Promise<QueryObjectiveAIParsedOutputs<T, P>> {
+    return this.parseOutputs(parseObjectiveAIResponse(text));
+  }
+
+  override async parseResult(
+    generations: Generation[] | ChatGeneration[],
+    _callbacks?: Callbacks
+  ): Promise<QueryObjectiveAIParsedOutputs<T, P>> {
+    const generation = generations[0];
+    if (generation !== undefined && "message" in generation) {
+      return this.parseOutputs(parseObjectiveAIResponse(generation.message));
+    } else {
+      return this.parse(generation?.text ?? "");
+    }
+  }
+
+  // while streaming, the partial output of each choice is emitted in choice
+  // order, with a confidence of 0, until the final chunk brings the
+  // confidence-ranked outputs
+  async parsePartialResult(
+    generations: Generation[] | ChatGeneration[]
+  ): Promise<QueryObjectiveAIParsedOutputs<T, P> | undefined> {
+    const generation = generations[0];
+    if (generation === undefined) {
+      return undefined;
+    } else if (!("message" in generation)) {
+      // streamed text can only be parsed once complete
+      try {
+        return await this.parse(generation.text);
+      } catch {
+        return undefined;
+      }
+    }
+    const { message } = generation;
+    if (
+      message.content !== "" ||
+      message.additional_kwargs.outputs !== undefined
+    ) {
+      return this.parseResult(generations);
+    }
+    const contents = message.additional_kwargs.choice_contents as
+      | Record<string, string>
+      | undefined;
+    if (contents === undefined) {
+      return undefined;
+    }
+    const outputs: QueryObjectiveAIOutput<T>[] = [];
+    // integer keys are enumerated in ascending order, which is choice order
+    for (const content of Object.values(contents)) {
+      let output: T | undefined;
+      try {
+        output = await this.parsePartialOutput(content);
+      } catch {
+        continue;
+      }
+      if (output !== undefined && output !== null) {
+        outputs.push({ confidence: 0, output });
+      }
+    }
+    return outputs.length > 0
+      ? (outputs as QueryObjectiveAIParsedOutputs<T, P>)
+      : undefined;
+  }
+
+  protected _diff(
+    prev: QueryObjectiveAIParsedOutputs<T, P> | undefined,
+    next: QueryObjectiveAIParsedOutputs<T, P>
+  ): Operation[] {
+    if (prev === undefined) {
+      return [{ op: "replace", path: "", value: next }];
+    }
+    return compare(prev, next);
+  }
+
+  // each streamed result replaces the previous one, unless streaming diffs
+  _concatOutputChunks<O>(first: O, second: O): O {
+    if (this.diff) {
+      return super._concatOutputChunks(first, second);
+    }
+    return second;
   }
 
   getFormatInstructions(): string {
     return "";
   }
+
+  // response_format for chat_completion_create_params matching the format
+  // instructions, undefined if the outputs are unconstrained
+  getResponseFormat(): Chat.Completions.Request.ResponseFormat | undefined {
+    return undefined;
+  }
 }
 
-export class QueryObjectiveAIJsonSchemaOutputParser<
-  T extends InteropZodType
-> extends BaseOutputParser<QueryObjectiveAIOutput<InferInteropZodOutput<T>>[]> {
-  structuredParser: StructuredOutputParser<T>;
+export class QueryObjectiveAITextOutputParser<
+  P extends QueryObjectiveAIFailurePolicy = "strict-winner"
+> extends BaseQueryObjectiveAIOutputParser<string, P> {
+  static lc_name() {
+    return "QueryObjectiveAITextOutputParser";
+  }
 
-  constructor(schema: T) {
-    super(schema);
-    this.structuredParser = new StructuredOutputParser(schema);
+  constructor(fields?: QueryObjectiveAIOutputParserFields<P>) {
+    super(fields);
   }
 
-  lc_namespace = ["langchain", "output_parsers", "objectiveai"];
+  parseOutput(text: string): Promise<string> {
+    return Promise.resolve(text);
+  }
+
+  async parsePartialOutput(text: string): Promise<string> {
+    return text;
+  }
+}
+
+// the JSON value of a partial output, with unterminated strings, arrays and
+// objects closed, undefined if it cannot be parsed yet
+function parsePartialJsonOutput(text: string): unknown {
+  return parseJsonMarkdown(text) ?? undefined;
+}
 
-  async parse(
+export class QueryObjectiveAIJsonObjectOutputParser<
+  P extends QueryObjectiveAIFailurePolicy = "strict-winner"
+> extends BaseQueryObjectiveAIOutputParser<Record<string, unknown>, P> {
+  static lc_name() {
+    return "QueryObjectiveAIJsonObjectOutputParser";
+  }
+
+  structuredParser: StructuredOutputParser<InteropZodType>;
+
+  constructor(fields?: QueryObjectiveAIOutputParserFields<P>) {
+    super(fields);
+    this.structuredParser = new StructuredOutputParser(z.record(z.unknown()));
+  }
+
+  async parseOutput(text: string): Promise<Record<string, unknown>> {
+    return (await this.structuredParser.parse(text)) as Record<string, unknown>;
+  }
+
+  async parsePartialOutput(
     text: string
-  ): Promise<QueryObjectiveAIOutput<InferInteropZodOutput<T>>[]> {
-    const choicesRaw = parseObjectiveAIResponse(text);
-    // only throw for the winning choice, otherwise omit failures
-    const choicesPromises = choicesRaw.map(
-      async ({ confidence, output: rawOutput }, i) => {
-        if (i === 0) {
-          const output = await this.structuredParser.parse(rawOutput);
-          return { confidence, output };
-        } else {
-          try {
-            const output = await this.structuredParser.parse(rawOutput);
-            return { confidence, output };
-          } catch {
-            return undefined;
-          }
-        }
-      }
-    );
-    const choices = await Promise.all(choicesPromises);
-    return choices.filter((c) => c !== undefined);
+  ): Promise<Record<string, unknown> | undefined> {
+    const parsed = parsePartialJsonOutput(text);
+    return typeof parsed === "object" &&
+      parsed !== null &&
+      !Array.isArray(parsed)
+      ? (parsed as Record<string, unknown>)
+      : undefined;
   }
 
   getFormatInstructions(): string {
-    return "";
+    return "Respond with a single JSON object, and nothing else.";
+  }
+
+  getResponseFormat(): Chat.Completions.Request.ResponseFormat {
+    return { type: "json_object" };
   }
 }
 
-export class QueryObjectiveAICustomOutputParser<T> extends BaseOutputParser<
-  QueryObjectiveAIOutput<T>[]
+// zod schemas infer their output, JSON Schemas are only validated against
+export type QueryObjectiveAIJsonSchemaOutput<T> = T extends InteropZodType
+  ? InferInteropZodOutput<T>
+  : unknown;
+
+export interface QueryObjectiveAIJsonSchemaOutputParserOptions<
+  P extends QueryObjectiveAIFailurePolicy
+> extends QueryObjectiveAIOutputParserFields<P> {
+  // name, description and strictness of the json_schema response format
+  name?: string;
+  description?: string;
+  strict?: boolean;
+}
+
+// the serialized form of the parser, zod schemas are serialized as JSON Schema
+export interface QueryObjectiveAIJsonSchemaOutputParserFields<
+  P extends QueryObjectiveAIFailurePolicy
+> extends QueryObjectiveAIJsonSchemaOutputParserOptions<P> {
+  schema: JSONSchema;
+}
+
+function isJsonSchemaOutputParserFields<
+  P extends QueryObjectiveAIFailurePolicy
+>(schema: unknown): schema is QueryObjectiveAIJsonSchemaOutputParserFields<P> {
+  return (
+    !isInteropZodSchema(schema) &&
+    typeof schema === "object" &&
+    schema !== null &&
+    "schema" in schema &&
+    typeof schema.schema === "object" &&
+    schema.schema !== null
+  );
+}
+
+export class QueryObjectiveAIJsonSchemaOutputParser<
+  T extends InteropZodType | JSONSchema = JSONSchema,
+  P extends QueryObjectiveAIFailurePolicy = "strict-winner"
+> extends BaseQueryObjectiveAIOutputParser<
+  QueryObjectiveAIJsonSchemaOutput<T>,
+  P
 > {
+  static lc_name() {
+    return "QueryObjectiveAIJsonSchemaOutputParser";
+  }
+
+  // set when constructed from a zod schema, which then parses the outputs
+  structuredParser?: StructuredOutputParser<InteropZodType>;
+
+  json_schema: JSONSchema;
+
+  validator: Validator;
+
+  name = "response";
+
+  description?: string;
+
+  strict?: boolean;
+
+  constructor(
+    schema: T | QueryObjectiveAIJsonSchemaOutputParserFields<P>,
+    fields?: QueryObjectiveAIJsonSchemaOutputParserOptions<P>
+  ) {
+    const jsonSchemaFields: QueryObjectiveAIJsonSchemaOutputParserFields<P> =
+      isJsonSchemaOutputParserFields<P>(schema)
+        ? schema
+        : { ...fields, schema: toJsonSchema(schema) };
+    super(jsonSchemaFields);
+    if (isInteropZodSchema(schema)) {
+      this.structuredParser = new StructuredOutputParser(schema);
+    }
+    this.json_schema = jsonSchemaFields.schema;
+    this.validator = new Validator(
+      this.json_schema as ConstructorParameters<typeof Validator>[0]
+    );
+    this.name =
+      jsonSchemaFields.name ??
+      (typeof this.json_schema.title === "string"
+        ? this.json_schema.title
+        : this.name);
+    this.description = jsonSchemaFields.description;
+    this.strict = jsonSchemaFields.strict;
+  }
+
+  async parseOutput(
+    text: string
+  ): Promise<QueryObjectiveAIJsonSchemaOutput<T>> {
+    if (this.structuredParser !== undefined) {
+      return this.structuredParser.parse(text);
+    }
+    let parsed: unknown;
+    try {
+      parsed = parseJsonMarkdown(text.trim());
+    } catch (e) {
+      throw new OutputParserException(
+        `Failed to parse. Text: "${text}". Error: ${e}`,
+        text
+      );
+    }
+    const result = this.validator.validate(parsed);
+    if (!result.valid) {
+      throw new OutputParserException(
+        `Failed to parse. Text: "${text}". Error: ${result.errors
+          .map(({ error }) => error)
+          .join(", ")}`,
+        text
+      );
+    }
+    return parsed as QueryObjectiveAIJsonSchemaOutput<T>;
+  }
+
+  // partial outputs are not validated, as they may not satisfy the schema
+  // until complete
+  async parsePartialOutput(
+    text: string
+  ): Promise<QueryObjectiveAIJsonSchemaOutput<T> | undefined> {
+    return parsePartialJsonOutput(text) as
+      | QueryObjectiveAIJsonSchemaOutput<T>
+      | undefined;
+  }
+
+  // the schema is not escaped, so the instructions must be passed to prompt
+  // templates as a variable rather than as part of the template itself
+  getFormatInstructions(): string {
+    return `Respond with a single JSON value which adheres to the following JSON Schema, and nothing else:
+\`\`\`json
+${JSON.stringify(this.json_schema)}
+\`\`\``;
+  }
+
+  getResponseFormat(): Chat.Completions.Request.ResponseFormat {
+    return {
+      type: "json_schema",
+      json_schema: {
+        name: this.name,
+        description: this.description,
+        schema: this.json_schema as Record<string, unknown>,
+        strict: this.strict,
+      },
+    };
+  }
+}
+
+export class QueryObjectiveAICustomOutputParser<
+  T,
+  P extends QueryObjectiveAIFailurePolicy = "strict-winner"
+> extends BaseQueryObjectiveAIOutputParser<T, P> {
+  static lc_name() {
+    return "QueryObjectiveAICustomOutputParser";
+  }
+
   parseFunction: (text: string) => Promise<T>;
 
   constructor(
     parseFunction: (text: string) => Promise<T>,
-    kwargs?: ConstructorParameters<typeof Serializable>[0],
+    kwargs?: ConstructorParameters<typeof Serializable>[0] &
+      QueryObjectiveAIOutputParserFields<P>,
     ..._args: never[]
   ) {
     super(kwargs, ..._args);
+    // load passes the serialized fields in place of the function
+    if (typeof parseFunction !== "function") {
+      throw new ObjectiveAIError(
+        "QueryObjectiveAICustomOutputParser cannot be loaded, as its parse function is not serialized. Construct it again with its parse function instead."
+      );
+    }
     this.parseFunction = parseFunction;
   }
 
-  lc_namespace = ["langchain", "output_parsers", "objectiveai"];
+  // the parse function cannot be serialized
+  toJSON(): Serialized {
+    return this.toJSONNotImplemented();
+  }
 
-  async parse(text: string): Promise<QueryObjectiveAIOutput<T>[]> {
-    const choicesRaw = parseObjectiveAIResponse(text);
-    // only throw for the winning choice, otherwise omit failures
-    const choicesPromises = choicesRaw.map(
-      async ({ confidence, output: rawOutput }, i) => {
-        if (i === 0) {
-          const output = await this.parseFunction(rawOutput);
-          return { confidence, output };
-        } else {
-          try {
-            const output = await this.parseFunction(rawOutput);
-            return { confidence, output };
-          } catch {
-            return undefined;
-          }
-        }
+  parseOutput(text: string): Promise<T> {
+    return this.parseFunction(text);
+  }
+}
+
+// deep equality where object key order does not matter
+export function structuralEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  } else if (Array.isArray(a) && Array.isArray(b)) {
+    return (
+      a.length === b.length && a.every((item, i) => structuralEqual(item, b[i]))
+    );
+  } else if (
+    typeof a === "object" &&
+    a !== null &&
+    typeof b === "object" &&
+    b !== null &&
+    !Array.isArray(a) &&
+    !Array.isArray(b)
+  ) {
+    const aEntries = Object.entries(a).filter(([, v]) => v !== undefined);
+    const bEntries = Object.entries(b).filter(([, v]) => v !== undefined);
+    return (
+      aEntries.length === bEntries.length &&
+      aEntries.every(
+        ([key, value]) =>
+          Object.prototype.hasOwnProperty.call(b, key) &&
+          structuralEqual(value, (b as Record<string, unknown>)[key])
+      )
+    );
+  } else {
+    return false;
+  }
+}
+
+// groups equal outputs, keeping the first (highest confidence) of each group
+// as its output, and sums their confidences
+export function mergeQueryObjectiveAIOutputs<T>(
+  outputs: QueryObjectiveAIOutput<T>[],
+  equals: (a: T, b: T) => boolean = structuralEqual
+): QueryObjectiveAIOutput<T>[] {
+  const merged: QueryObjectiveAIOutput<T>[] = [];
+  for (const { confidence, output } of outputs) {
+    const existing = merged.find((m) => equals(m.output, output));
+    if (existing) {
+      existing.confidence += confidence;
+    } else {
+      merged.push({ confidence, output });
+    }
+  }
+  return merged.sort((a, b) => b.confidence - a.confidence);
+}
+
+// probability of each key, the share of the confidence of the outputs which
+// vote for it, 0 for keys no output voted for
+// outputs omitted by the parser do not count towards the total, and votes
+// for other keys are ignored
+export function tallyQueryObjectiveAIVotes<T>(
+  keys: string[],
+  outputs: QueryObjectiveAIOutput<T>[],
+  votes: (output: T) => string[]
+): Record<string, number> {
+  const distribution: Record<string, number> = {};
+  for (const key of keys) {
+    distribution[key] = 0;
+  }
+  const total = outputs.reduce((sum, { confidence }) => sum + confidence, 0);
+  for (const { confidence, output } of outputs) {
+    for (const key of votes(output)) {
+      if (total > 0 && key in distribution) {
+        distribution[key] += confidence / total;
       }
+    }
+  }
+  return distribution;
+}
+
+// the most probable key, the first of equally probable ones, undefined if no
+// key has any probability
+export function topQueryObjectiveAIVote(
+  distribution: Record<string, number>
+): string | undefined {
+  let top: string | undefined;
+  for (const [key, p] of Object.entries(distribution)) {
+    if (p > 0 && (top === undefined || p > distribution[top])) {
+      top = key;
+    }
+  }
+  return top;
+}
+
+export interface QueryObjectiveAIConsensusOutputParserFields<
+  T,
+  P extends QueryObjectiveAIFailurePolicy
+> {
+  parser: BaseQueryObjectiveAIOutputParser<T, P>;
+  equals?: (a: T, b: T) => boolean;
+  // calibrates the merged confidences, defaults to the calibrator of the
+  // parser, which then calibrates them instead of those of each choice
+  calibrator?: QueryObjectiveAICalibrator;
+}
+
+export class QueryObjectiveAIConsensusOutputParser<
+  T,
+  P extends QueryObjectiveAIFailurePolicy = "strict-winner"
+> extends BaseQueryObjectiveAIOutputParser<T, P> {
+  static lc_name() {
+    return "QueryObjectiveAIConsensusOutputParser";
+  }
+
+  parser: BaseQueryObjectiveAIOutputParser<T, P>;
+
+  equals: (a: T, b: T) => boolean = structuralEqual;
+
+  constructor(fields: QueryObjectiveAIConsensusOutputParserFields<T, P>) {
+    super({ ...fields, failure_policy: fields.parser.failure_policy });
+    this.parser = fields.parser;
+    this.equals = fields.equals ?? this.equals;
+    this.calibrator = fields.calibrator ?? fields.parser.calibrator;
+  }
+
+  // a custom equality function cannot be serialized
+  toJSON(): Serialized {
+    return this.equals === structuralEqual
+      ? super.toJSON()
+      : this.toJSONNotImplemented();
+  }
+
+  parseOutput(text: string): Promise<T> {
+    return this.parser.parseOutput(text);
+  }
+
+  // partial outputs are not merged, as they have no confidence yet
+  parsePartialOutput(text: string): Promise<T | undefined> {
+    return this.parser.parsePartialOutput(text);
+  }
+
+  // parseOutputs calibrates the merged confidences, rather than those of
+  // each choice
+  async parseUncalibratedOutputs(
+    choicesRaw: QueryObjectiveAIOutput<string>[]
+  ): Promise<QueryObjectiveAIParsedOutputs<T, P>> {
+    const results: QueryObjectiveAIOutputResult<T>[] =
+      await this.parser.parseUncalibratedOutputs(choicesRaw);
+    // failures reported by "report-all" are kept apart, after the outputs
+    const outputs = mergeQueryObjectiveAIOutputs(
+      results.filter((r): r is QueryObjectiveAIOutput<T> => "output" in r),
+      this.equals
+    );
+    const errors = results.filter(
+      (r): r is QueryObjectiveAIOutputError => "error" in r
     );
-    const choices = await Promise.all(choicesPromises);
-    return choices.filter((c) => c !== undefined);
+    return [...outputs, ...errors] as QueryObjectiveAIParsedOutputs<T, P>;
   }
 
   getFormatInstructions(): string {
-    return "";
+    return this.parser.getFormatInstructions();
+  }
+
+  getResponseFormat(): Chat.Completions.Request.ResponseFormat | undefined {
+    return this.parser.getResponseFormat();
   }
 }
@@ -0,0 +1,95 @@
+import { Query } from "objectiveai";
+import { ObjectiveAIError } from "./errors.js";
+
+// a named Query ensemble, chosen with the preset field of QueryObjectiveAI
+// no presets are built in, as ensembles are specific to an ObjectiveAI
+// account, so applications register their own before constructing models
+export interface QueryObjectiveAIPreset {
+  description?: string;
+  chat_completion_create_params: Omit<
+    Query.Completions.Request.ChatCompletionCreateParamsNonStreaming,
+    "messages"
+  >;
+}
+
+const queryObjectiveAIPresets = new Map<string, QueryObjectiveAIPreset>();
+
+// set by the model on every call, rather than by a preset
+const PER_CALL_PARAMS = ["messages", "stream", "stream_options"];
+
+// throws if the preset cannot be used to construct a QueryObjectiveAI
+function assertQueryObjectiveAIPreset(
+  name: string,
+  preset: QueryObjectiveAIPreset
+): void {
+  const params: unknown = preset?.chat_completion_create_params;
+  if (typeof params !== "object" || params === null || Array.isArray(params)) {
+    throw new ObjectiveAIError(
+      `QueryObjectiveAI preset "${name}" has no chat_completion_create_params.`
+    );
+  }
+  const { model } = params as { model?: unknown };
+  if (typeof model !== "string" || model.trim() === "") {
+    throw new ObjectiveAIError(
+      `QueryObjectiveAI preset "${name}" has no chat_completion_create_params.model.`
+    );
+  }
+  const perCall = PER_CALL_PARAMS.filter((key) => key in params);
+  if (perCall.length > 0) {
+    throw new ObjectiveAIError(
+      `QueryObjectiveAI preset "${name}" sets ${perCall.join(
+        ", "
+      )}, which are set on every call.`
+    );
+  } else if (
+    preset.description !== undefined &&
+    typeof preset.description !== "string"
+  ) {
+    throw new ObjectiveAIError(
+      `QueryObjectiveAI preset "${name}" has a description which is not a string.`
+    );
+  }
+}
+
+// the preset is copied, so changing it afterwards does not change the
+// registered preset
+export function registerQueryObjectiveAIPreset(
+  name: string,
+  preset: QueryObjectiveAIPreset
+): void {
+  if (name.trim() === "" || name.trim() !== name) {
+    throw new ObjectiveAIError(
+      `QueryObjectiveAI preset name "${name}" is empty or has surrounding whitespace.`
+    );
+  } else if (queryObjectiveAIPresets.has(name)) {
+    throw new ObjectiveAIError(
+      `QueryObjectiveAI preset "${name}" is already registered.`
+    );
+  }
+  assertQueryObjectiveAIPreset(name, preset);
+  queryObjectiveAIPresets.set(name, {
+    ...preset,
+    chat_completion_create_params: { ...preset.chat_completion_create_params },
+  });
+}
+
+export function getQueryObjectiveAIPreset(
+  name: string
+): QueryObjectiveAIPreset {
+  const preset = queryObjectiveAIPresets.get(name);
+  if (preset === undefined) {
+    const names = listQueryObjectiveAIPresets();
+    throw new ObjectiveAIError(
+      names.length > 0
+        ? `Unknown QueryObjectiveAI preset "${name}", expected one of: ${names.join(
+            ", "
+          )}.`
+        : `Unknown QueryObjectiveAI preset "${name}", no presets are registered.`
+    );
+  }
+  return preset;
+}
+
+export function listQueryObjectiveAIPresets(): string[] {
+  return [...queryObjectiveAIPresets.keys()];
+}
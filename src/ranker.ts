@@ -0,0 +1,376 @@
+import { CallbackManagerForChainRun } from "@langchain/core/callbacks/manager";
+import { ChatPromptTemplate } from "@langchain/core/prompts";
+import {
+  Runnable,
+  RunnableConfig,
+  patchConfig,
+} from "@langchain/core/runnables";
+import { z } from "zod";
+import { QueryObjectiveAI } from "./chat_models.js";
+import { ObjectiveAIError } from "./errors.js";
+import {
+  QueryObjectiveAIJsonSchemaOutputParser,
+  QueryObjectiveAIOutput,
+  tallyQueryObjectiveAIVotes,
+} from "./output_parser.js";
+
+export interface QueryObjectiveAIRankerInput {
+  // what the candidates are ranked for, e.g. a query
+  input?: string;
+  candidates: string[];
+}
+
+export interface QueryObjectiveAIRankerFields {
+  model: QueryObjectiveAI;
+  // defaults to overall quality and relevance to the input
+  criteria?: string;
+  // number of candidates per comparison, defaults to 2
+  group_size?: number;
+  // number of rounds, in each of which every candidate is compared at least
+  // once, defaults to log2 of the number of candidates
+  rounds?: number;
+  // maximum number of comparisons, over all rounds
+  max_comparisons?: number;
+  // maximum number of concurrent comparisons, defaults to 5
+  max_concurrency?: number;
+  // pseudo-comparisons of every candidate against an average one, which keep
+  // the scores of unbeaten or unbeating candidates finite, defaults to 1
+  prior?: number;
+  // prompts take {criteria}, {input}, {candidates} and {comparison}, the
+  // input and numbered candidates formatted together
+  prompt?: ChatPromptTemplate;
+}
+
+export interface QueryObjectiveAIRankerJudgment {
+  reasoning: string;
+  // number of the best candidate, from 1
+  best: string;
+}
+
+export interface QueryObjectiveAIRankerComparison {
+  // indices of the compared candidates, in the order they were numbered
+  candidates: number[];
+  // probability of each candidate being the best, in the same order
+  probabilities: number[];
+  outputs: QueryObjectiveAIOutput<QueryObjectiveAIRankerJudgment>[];
+}
+
+export interface QueryObjectiveAIRankedCandidate {
+  // index of the candidate in the input
+  index: number;
+  candidate: string;
+  // Bradley-Terry log strength, centered on 0
+  score: number;
+  // approximate standard error of the score
+  uncertainty: number;
+  // number of comparisons the candidate was in
+  comparisons: number;
+}
+
+export interface QueryObjectiveAIRanking {
+  // every candidate, the highest scoring first
+  ranking: QueryObjectiveAIRankedCandidate[];
+  comparisons: QueryObjectiveAIRankerComparison[];
+}
+
+const RANKER_PROMPT = ChatPromptTemplate.fromMessages([
+  [
+    "system",
+    "Compare the candidates on the following criteria:\n{criteria}\n\nReason step by step about which candidate is best, then give the number of the best candidate.",
+  ],
+  ["human", "{comparison}"],
+]);
+
+// soft wins of a candidate over another, and number of comparisons of the two
+interface PairRecord {
+  wins: number;
+  count: number;
+}
+
+function pairKey(i: number, j: number): string {
+  return i < j ? `${i},${j}` : `${j},${i}`;
+}
+
+// one minorization-maximization update of the Bradley-Terry strengths
+// records holds, for each candidate, its record against the candidates it
+// was compared with
+function bradleyTerryStep(
+  strengths: number[],
+  records: Map<number, PairRecord>[],
+  prior: number
+): number[] {
+  return strengths.map((s, i) => {
+    let won = prior / 2;
+    let denominator = prior / (s + 1);
+    for (const [j, { wins, count }] of records[i]) {
+      won += wins;
+      denominator += count / (s + strengths[j]);
+    }
+    return won / denominator;
+  });
+}
+
+// ranks many candidates with Swiss-style rounds of small comparisons, each
+// decided by a Query, instead of a single prompt with every candidate
+// the first round compares neighbouring candidates in input order, later
+// rounds compare candidates with neighbouring scores which have not been
+// compared yet
+// the probability of each candidate being the best is taken as a soft win
+// over each other candidate of its comparison, in proportion to their
+// probabilities, and candidates are scored with a Bradley-Terry model
+export class QueryObjectiveAIRanker extends Runnable<
+  QueryObjectiveAIRankerInput,
+  QueryObjectiveAIRanking
+> {
+  static lc_name() {
+    return "QueryObjectiveAIRanker";
+  }
+
+  lc_namespace = ["langchain", "runnables", "objectiveai"];
+
+  model: QueryObjectiveAI;
+
+  criteria = "Overall quality and relevance to the input.";
+
+  group_size = 2;
+
+  rounds?: number;
+
+  max_comparisons?: number;
+
+  max_concurrency = 5;
+
+  prior = 1;
+
+  prompt: ChatPromptTemplate = RANKER_PROMPT;
+
+  constructor(fields: QueryObjectiveAIRankerFields) {
+    super(fields);
+    if (fields.group_size !== undefined && !(fields.group_size >= 2)) {
+      throw new ObjectiveAIError(
+        "QueryObjectiveAIRanker group_size must be at least 2."
+      );
+    } else if (fields.prior !== undefined && !(fields.prior > 0)) {
+      throw new ObjectiveAIError(
+        "QueryObjectiveAIRanker prior must be positive."
+      );
+    }
+    this.model = fields.model;
+    this.criteria = fields.criteria ?? this.criteria;
+    this.group_size = fields.group_size ?? this.group_size;
+    this.rounds = fields.rounds;
+    this.max_comparisons = fields.max_comparisons;
+    this.max_concurrency = fields.max_concurrency ?? this.max_concurrency;
+    this.prior = fields.prior ?? this.prior;
+    this.prompt = fields.prompt ?? this.prompt;
+  }
+
+  formatComparison(input: string | undefined, candidates: string[]): string {
+    const numbered = candidates
+      .map((candidate, i) => `[${i + 1}]\n${candidate}`)
+      .join("\n\n");
+    return input !== undefined
+      ? `Input:\n${input}\n\nCandidates:\n\n${numbered}`
+      : `Candidates:\n\n${numbered}`;
+  }
+
+  // the comparisons of a round, by candidate index
+  // each group takes the next candidates in order which have not been
+  // compared with those already in it, or the next ones if there are none,
+  // and a short last group is filled with the candidates before it
+  // candidates rotate within their group from one group and round to the
+  // next, so that none is always numbered first
+  // compared holds the pairs already compared, as "i,j" with i < j
+  schedule(
+    order: number[],
+    round = 0,
+    compared: Set<string> = new Set()
+  ): number[][] {
+    const size = Math.min(this.group_size, order.length);
+    const fresh = (group: number[]) => (j: number) =>
+      group.every((i) => !compared.has(pairKey(i, j)));
+    const remaining = [...order];
+    const groups: number[][] = [];
+    while (remaining.length > 0) {
+      const group = remaining.splice(0, 1);
+      // candidates already grouped, the nearest first
+      const fill = order
+        .filter((i) => !remaining.includes(i) && i !== group[0])
+        .reverse();
+      while (group.length < size) {
+        const pool = remaining.length > 0 ? remaining : fill;
+        const k = Math.max(0, pool.findIndex(fresh(group)));
+        group.push(...pool.splice(k, 1));
+      }
+      groups.push(group);
+    }
+    return groups.map((group, g) => {
+      const shift = (round + g) % group.length;
+      return [...group.slice(shift), ...group.slice(0, shift)];
+    });
+  }
+
+  // every group of a round has the same size
+  async compare(
+    input: string | undefined,
+    candidates: string[],
+    groups: number[][],
+    config?: Partial<RunnableConfig>
+  ): Promise<QueryObjectiveAIRankerComparison[]> {
+    const size = groups[0]?.length ?? 0;
+    const numbers = Array.from({ length: size }, (_, i) => `${i + 1}`);
+    const parser = new QueryObjectiveAIJsonSchemaOutputParser(
+      z.object({
+        reasoning: z.string(),
+        best: z.enum(numbers as [string, ...string[]]),
+      }),
+      { name: "comparison", strict: true, failure_policy: "best-valid" }
+    );
+    const chain = this.prompt
+      .pipe(
+        this.model.withConfig({ response_format: parser.getResponseFormat() })
+      )
+      .pipe(parser);
+    const outputs = await chain.batch(
+      groups.map((group) => {
+        const grouped = group.map((i) => candidates[i]);
+        return {
+          criteria: this.criteria,
+          input: input ?? "",
+          candidates: grouped,
+          comparison: this.formatComparison(input, grouped),
+        };
+      }),
+      config
+    );
+    return groups.map((group, g) => {
+      const distribution = tallyQueryObjectiveAIVotes(
+        numbers,
+        outputs[g],
+        ({ best }) => [best]
+      );
+      return {
+        candidates: group,
+        probabilities: numbers.map((number) => distribution[number]),
+        outputs: outputs[g],
+      };
+    });
+  }
+
+  // Bradley-Terry scores of the candidates, with the prior as
+  // pseudo-comparisons against a candidate of strength 1
+  rank(
+    candidates: string[],
+    comparisons: QueryObjectiveAIRankerComparison[]
+  ): QueryObjectiveAIRankedCandidate[] {
+    const n = candidates.length;
+    const records = Array.from(
+      { length: n },
+      () => new Map<number, PairRecord>()
+    );
+    const compared = new Array<number>(n).fill(0);
+    for (const { candidates: group, probabilities } of comparisons) {
+      group.forEach((i, a) => {
+        compared[i] += 1;
+        group.forEach((j, b) => {
+          const p = probabilities[a] + probabilities[b];
+          // a comparison says nothing of two candidates neither of which won
+          if (i !== j && p > 0) {
+            const record = records[i].get(j) ?? { wins: 0, count: 0 };
+            record.wins += probabilities[a] / p;
+            record.count += 1;
+            records[i].set(j, record);
+          }
+        });
+      });
+    }
+    let strengths = new Array<number>(n).fill(1);
+    for (let iteration = 0; iteration < 1000; iteration += 1) {
+      const next = bradleyTerryStep(strengths, records, this.prior);
+      let change = 0;
+      for (let i = 0; i < n; i += 1) {
+        change = Math.max(change, Math.abs(Math.log(next[i] / strengths[i])));
+      }
+      strengths = next;
+      if (change < 1e-9) {
+        break;
+      }
+    }
+    const logs = strengths.map(Math.log);
+    const mean = logs.reduce((sum, l) => sum + l, 0) / Math.max(n, 1);
+    // standard errors from the diagonal of the Fisher information
+    const uncertainties = strengths.map((s, i) => {
+      let information = (this.prior * s) / (s + 1) ** 2;
+      for (const [j, { count }] of records[i]) {
+        information += (count * s * strengths[j]) / (s + strengths[j]) ** 2;
+      }
+      return 1 / Math.sqrt(information);
+    });
+    return candidates
+      .map((candidate, index) => ({
+        index,
+        candidate,
+        score: logs[index] - mean,
+        uncertainty: uncertainties[index],
+        comparisons: compared[index],
+      }))
+      .sort((a, b) => b.score - a.score || a.index - b.index);
+  }
+
+  async _invoke(
+    input: QueryObjectiveAIRankerInput,
+    config?: Partial<RunnableConfig>,
+    runManager?: CallbackManagerForChainRun
+  ): Promise<QueryObjectiveAIRanking> {
+    const { candidates } = input;
+    const comparisons: QueryObjectiveAIRankerComparison[] = [];
+    // pairs of candidates compared in earlier rounds
+    const compared = new Set<string>();
+    let ranking = this.rank(candidates, comparisons);
+    if (candidates.length < 2) {
+      return { ranking, comparisons };
+    }
+    const rounds =
+      this.rounds ?? Math.max(1, Math.ceil(Math.log2(candidates.length)));
+    for (let round = 0; round < rounds; round += 1) {
+      const order =
+        round === 0
+          ? candidates.map((_, i) => i)
+          : ranking.map(({ index }) => index);
+      const remaining = (this.max_comparisons ?? Infinity) - comparisons.length;
+      const groups = this.schedule(order, round, compared).slice(0, remaining);
+      if (groups.length === 0) {
+        break;
+      }
+      comparisons.push(
+        ...(await this.compare(
+          input.input,
+          candidates,
+          groups,
+          patchConfig(config, {
+            callbacks: runManager?.getChild(`round:${round}`),
+            maxConcurrency: this.max_concurrency,
+          })
+        ))
+      );
+      for (const group of groups) {
+        for (const i of group) {
+          for (const j of group) {
+            if (i !== j) {
+              compared.add(pairKey(i, j));
+            }
+          }
+        }
+      }
+      ranking = this.rank(candidates, comparisons);
+    }
+    return { ranking, comparisons };
+  }
+
+  async invoke(
+    input: QueryObjectiveAIRankerInput,
+    config?: Partial<RunnableConfig>
+  ): Promise<QueryObjectiveAIRanking> {
+    return this._callWithConfig(this._invoke, input, config);
+  }
+}
@@ -0,0 +1,240 @@
+import { type ClientOptions } from "openai";
+import { Chat, Query } from "objectiveai";
+import {
+  BaseQueryModelParams,
+  QueryObjectiveAI,
+  QueryRequestOptions,
+  rankQueryCompletionChoices,
+  sumQueryUsage,
+  withDefaultQueryModel,
+} from "./chat_models.js";
+
+export interface FakeQueryObjectiveAIToolCall {
+  id?: string;
+  name: string;
+  // objects are JSON-stringified, strings are sent as is, e.g. to script
+  // invalid tool calls
+  args: Record<string, unknown> | string;
+}
+
+export interface FakeQueryObjectiveAIChoice {
+  content?: string | null;
+  confidence?: number | null;
+  // defaults to "fake-generate-{index}", or null if confidence_id is set
+  generate_id?: string | null;
+  confidence_id?: string | null;
+  confidence_weight?: number | null;
+  tool_calls?: FakeQueryObjectiveAIToolCall[];
+  // defaults to "tool_calls" if there are tool calls, else "stop"
+  finish_reason?: Chat.Completions.Response.FinishReason;
+  // defaults to "fake-model"
+  model?: string;
+  // defaults to the index of the choice
+  model_index?: number | null;
+  usage?: Chat.Completions.Response.Usage;
+}
+
+export interface FakeQueryObjectiveAIResponse {
+  choices: FakeQueryObjectiveAIChoice[];
+  // defaults to the sum of the usage of the choices
+  usage?: Chat.Completions.Response.Usage;
+}
+
+export interface FakeQueryObjectiveAIParams
+  extends Omit<BaseQueryModelParams, "openai" | "client" | "fetch"> {
+  // returned in order, starting over once exhausted
+  // errors are thrown instead, as if the request had failed
+  responses: (FakeQueryObjectiveAIResponse | Error)[];
+}
+
+// a QueryObjectiveAI which returns scripted responses instead of calling
+// ObjectiveAI, for offline tests
+// responses go through the same mapping, validation, budget and retries as
+// real ones, and streamed responses are split into word-sized deltas
+// retries are disabled unless maxRetries is set
+export class FakeQueryObjectiveAI extends QueryObjectiveAI {
+  static lc_name() {
+    return "FakeQueryObjectiveAI";
+  }
+
+  lc_serializable = false;
+
+  responses: (FakeQueryObjectiveAIResponse | Error)[];
+
+  // every request sent, in order
+  requests: Query.Completions.Request.ChatCompletionCreateParamsBase[] = [];
+
+  // index of the next response
+  i = 0;
+
+  constructor(fields: FakeQueryObjectiveAIParams) {
+    super({
+      maxRetries: 0,
+      ...withDefaultQueryModel(fields, "fake"),
+      openai: { apiKey: "fake" },
+    });
+    this.responses = fields.responses;
+  }
+
+  protected nextResponse(
+    chatCompletionCreateParams: Query.Completions.Request.ChatCompletionCreateParamsBase
+  ): Query.Completions.Response.Unary.ChatCompletion {
+    if (this.responses.length === 0) {
+      throw new Error("FakeQueryObjectiveAI has no responses.");
+    }
+    this.requests.push(chatCompletionCreateParams);
+    const response = this.responses[this.i % this.responses.length];
+    const id = `fake-query-completion-${this.i}`;
+    this.i += 1;
+    if ("choices" in response) {
+      return fakeQueryCompletion(
+        id,
+        chatCompletionCreateParams.model,
+        response
+      );
+    } else {
+      throw response;
+    }
+  }
+
+  protected async createCompletion(
+    _openaiOptions: ClientOptions,
+    chatCompletionCreateParams: Query.Completions.Request.ChatCompletionCreateParamsNonStreaming,
+    _requestOptions: QueryRequestOptions
+  ): Promise<Query.Completions.Response.Unary.ChatCompletion> {
+    // unary responses are ranked by confidence
+    return rankQueryCompletionChoices(
+      this.nextResponse(chatCompletionCreateParams)
+    );
+  }
+
+  protected async createCompletionStream(
+    _openaiOptions: ClientOptions,
+    chatCompletionCreateParams: Query.Completions.Request.ChatCompletionCreateParamsStreaming,
+    _requestOptions: QueryRequestOptions
+  ): Promise<
+    AsyncIterable<Query.Completions.Response.Streaming.ChatCompletionChunk>
+  > {
+    const completion = this.nextResponse(chatCompletionCreateParams);
+    return fakeQueryCompletionChunks(
+      completion,
+      chatCompletionCreateParams.stream_options?.include_usage ?? false
+    );
+  }
+}
+
+// votes have no generate id unless scripted
+function fakeGenerateId(
+  c: FakeQueryObjectiveAIChoice,
+  index: number
+): string | null {
+  if (c.generate_id !== undefined) {
+    return c.generate_id;
+  }
+  return c.confidence_id ? null : `fake-generate-${index}`;
+}
+
+function fakeQueryCompletion(
+  id: string,
+  model: string,
+  response: FakeQueryObjectiveAIResponse
+): Query.Completions.Response.Unary.ChatCompletion {
+  return {
+    id,
+    choices: response.choices.map((c, index) => {
+      const tool_calls = c.tool_calls?.map((tc, i) => ({
+        type: "function" as const,
+        id: tc.id ?? `fake-call-${index}-${i}`,
+        function: {
+          name: tc.name,
+          arguments:
+            typeof tc.args === "string" ? tc.args : JSON.stringify(tc.args),
+        },
+      }));
+      const choiceModel = c.model ?? "fake-model";
+      return {
+        message: {
+          role: "assistant",
+          content: c.content ?? null,
+          refusal: null,
+          tool_calls,
+        },
+        finish_reason:
+          c.finish_reason ??
+          (tool_calls !== undefined && tool_calls.length > 0
+            ? "tool_calls"
+            : "stop"),
+        index,
+        generate_id: fakeGenerateId(c, index),
+        confidence_id: c.confidence_id ?? null,
+        confidence_weight: c.confidence_weight ?? null,
+        confidence: c.confidence ?? null,
+        model: choiceModel,
+        model_index: c.model_index !== undefined ? c.model_index : index,
+        completion_metadata: {
+          id: `${id}-${index}`,
+          created: 0,
+          model: choiceModel,
+          usage: c.usage,
+        },
+      };
+    }),
+    created: 0,
+    model,
+    object: "chat.completion",
+    usage:
+      response.usage ??
+      sumQueryUsage(
+        response.choices.flatMap(({ usage }) =>
+          usage !== undefined ? [usage] : []
+        )
+      ),
+  };
+}
+
+async function* fakeQueryCompletionChunks(
+  completion: Query.Completions.Response.Unary.ChatCompletion,
+  include_usage: boolean
+): AsyncGenerator<Query.Completions.Response.Streaming.ChatCompletionChunk> {
+  const chunk = (
+    choices: Query.Completions.Response.Streaming.Choice[]
+  ): Query.Completions.Response.Streaming.ChatCompletionChunk => ({
+    id: completion.id,
+    choices,
+    created: completion.created,
+    model: completion.model,
+    object: "chat.completion.chunk",
+  });
+  for (const { message, finish_reason, ...choice } of completion.choices) {
+    // the confidence is only known once the choice is finished
+    const pending = {
+      ...choice,
+      finish_reason: null,
+      confidence: null,
+      confidence_weight: null,
+    };
+    const contents = message.content
+      ? message.content.match(/\s*\S+\s*/g) ?? [message.content]
+      : [];
+    yield chunk([
+      {
+        ...pending,
+        delta: {
+          role: "assistant",
+          content: contents[0],
+          tool_calls: message.tool_calls?.map((tc, index) => ({
+            ...tc,
+            index,
+          })),
+        },
+      },
+    ]);
+    for (const content of contents.slice(1)) {
+      yield chunk([{ ...pending, delta: { content } }]);
+    }
+    yield chunk([{ ...choice, finish_reason, delta: {} }]);
+  }
+  if (include_usage && completion.usage !== undefined) {
+    yield { ...chunk([]), usage: completion.usage };
+  }
+}
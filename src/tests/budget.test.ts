@@ -0,0 +1,94 @@
+import { describe, expect, test } from "@jest/globals";
+import { ObjectiveAIBudget } from "../budget.js";
+import { ObjectiveAIUsageCallbackHandler } from "../callbacks.js";
+import { BudgetExceededError, ObjectiveAIError } from "../errors.js";
+import { FakeQueryObjectiveAI } from "../testing.js";
+
+const usage = {
+  prompt_tokens: 10,
+  completion_tokens: 5,
+  total_tokens: 15,
+  cost: 0.4,
+};
+
+describe("ObjectiveAIBudget", () => {
+  test("returns the call going over the budget, and refuses the next", async () => {
+    const budget = new ObjectiveAIBudget({ max_cost: 1 });
+    const handler = new ObjectiveAIUsageCallbackHandler();
+    const model = new FakeQueryObjectiveAI({
+      responses: [{ choices: [{ content: "answer", confidence: 1, usage }] }],
+      budget,
+      callbacks: [handler],
+    });
+    for (let i = 0; i < 3; i += 1) {
+      await model.invoke("question");
+    }
+    expect(budget.spent).toBeCloseTo(1.2);
+    expect(handler.total.cost).toBeCloseTo(1.2);
+    await expect(model.invoke("question")).rejects.toThrow(BudgetExceededError);
+    expect(model.requests).toHaveLength(3);
+  });
+
+  test("refuses a call estimated to go over the budget", async () => {
+    const budget = new ObjectiveAIBudget({
+      max_cost: 1,
+      estimate_cost: () => 2,
+    });
+    const model = new FakeQueryObjectiveAI({
+      responses: [{ choices: [{ content: "answer", confidence: 1, usage }] }],
+      budget,
+    });
+    await expect(model.invoke("question")).rejects.toThrow(BudgetExceededError);
+    expect(model.requests).toHaveLength(0);
+  });
+
+  test("makes concurrent calls one at a time while their cost is unknown", async () => {
+    const budget = new ObjectiveAIBudget({ max_cost: 1 });
+    const model = new FakeQueryObjectiveAI({
+      responses: [{ choices: [{ content: "answer", confidence: 1, usage }] }],
+      budget,
+    });
+    const results = await model.batch(
+      Array(10).fill("question"),
+      { maxConcurrency: 10 },
+      { returnExceptions: true }
+    );
+    expect(model.requests).toHaveLength(3);
+    expect(budget.spent).toBeCloseTo(1.2);
+    expect(budget.reserved).toBe(0);
+    expect(
+      results.filter(
+        (result) =>
+          ObjectiveAIError.isInstance(result) &&
+          result.name === "BudgetExceededError"
+      )
+    ).toHaveLength(7);
+  });
+
+  test("admits concurrent calls while their estimates fit in the budget", async () => {
+    const budget = new ObjectiveAIBudget({
+      max_cost: 1,
+      estimate_cost: () => 0.4,
+    });
+    const model = new FakeQueryObjectiveAI({
+      responses: [{ choices: [{ content: "answer", confidence: 1, usage }] }],
+      budget,
+    });
+    const results = await model.batch(
+      Array(4).fill("question"),
+      { maxConcurrency: 4 },
+      { returnExceptions: true }
+    );
+    // two estimates fit beside each other, and the third no longer fits once
+    // both are spent
+    expect(model.requests).toHaveLength(2);
+    expect(budget.spent).toBeCloseTo(0.8);
+    expect(
+      results.filter(
+        (result) =>
+          ObjectiveAIError.isInstance(result) &&
+          result.name === "BudgetExceededError"
+      )
+    ).toHaveLength(2);
+  });
+});
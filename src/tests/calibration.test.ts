@@ -0,0 +1,141 @@
+import { describe, expect, test } from "@jest/globals";
+import {
+  QueryObjectiveAICalibrationSample,
+  QueryObjectiveAIIsotonicCalibrator,
+  QueryObjectiveAITemperatureCalibrator,
+} from "../calibration.js";
+import { ObjectiveAIError } from "../errors.js";
+import {
+  brierScore,
+  evaluateQueryObjectiveAI,
+  expectedCalibrationError,
+  reliabilityBins,
+  selectiveAccuracy,
+} from "../evaluation.js";
+import { QueryObjectiveAIOutput } from "../output_parser.js";
+
+// confident predictions which are right 60% of the time
+const overconfident: QueryObjectiveAICalibrationSample[] = Array.from(
+  { length: 100 },
+  (_, i) => ({ confidence: 0.95, correct: i % 5 < 3 })
+);
+
+describe("QueryObjectiveAITemperatureCalibrator", () => {
+  test("softens overconfident predictions", () => {
+    const calibrator = QueryObjectiveAITemperatureCalibrator.fit(overconfident);
+    expect(calibrator.temperature).toBeGreaterThan(1);
+    expect(calibrator.calibrate(0.95)).toBeCloseTo(0.6, 2);
+    // the ranking of confidences is kept
+    expect(calibrator.calibrate(0.9)).toBeLessThan(calibrator.calibrate(0.95));
+  });
+
+  test("refuses a fit without samples, and invalid temperatures", () => {
+    expect(() => QueryObjectiveAITemperatureCalibrator.fit([])).toThrow(
+      ObjectiveAIError
+    );
+    expect(
+      () => new QueryObjectiveAITemperatureCalibrator({ temperature: 0 })
+    ).toThrow(ObjectiveAIError);
+  });
+});
+
+describe("QueryObjectiveAIIsotonicCalibrator", () => {
+  test("fits a non-decreasing step function", () => {
+    const calibrator = QueryObjectiveAIIsotonicCalibrator.fit([
+      { confidence: 0.2, correct: false },
+      { confidence: 0.4, correct: true },
+      { confidence: 0.6, correct: false },
+      { confidence: 0.8, correct: true },
+      { confidence: 0.9, correct: true },
+    ]);
+    for (let i = 1; i < calibrator.values.length; i += 1) {
+      expect(calibrator.values[i]).toBeGreaterThanOrEqual(
+        calibrator.values[i - 1]
+      );
+    }
+    expect(calibrator.calibrate(0)).toBe(0);
+    expect(calibrator.calibrate(0.5)).toBeCloseTo(0.5);
+    expect(calibrator.calibrate(1)).toBe(1);
+  });
+});
+
+describe("calibration metrics", () => {
+  const samples = [
+    { confidence: 0.9, correct: true },
+    { confidence: 0.9, correct: false },
+    { confidence: 0.2, correct: false },
+    { confidence: 1, correct: true },
+  ];
+
+  test("bins the samples by confidence", () => {
+    const bins = reliabilityBins(samples, 2);
+    expect(bins.map(({ count }) => count)).toEqual([1, 3]);
+    expect(bins[1].accuracy).toBeCloseTo(2 / 3);
+    expect(bins[1].mean_confidence).toBeCloseTo(2.8 / 3);
+  });
+
+  test("measures the calibration error and Brier score", () => {
+    expect(expectedCalibrationError(samples, 2)).toBeCloseTo(
+      0.25 * 0.2 + 0.75 * (2.8 / 3 - 2 / 3)
+    );
+    expect(brierScore(samples)).toBeCloseTo((0.01 + 0.81 + 0.04 + 0) / 4);
+  });
+
+  test("drops predictions with the same confidence together", () => {
+    expect(selectiveAccuracy(samples)).toEqual([
+      { threshold: 1, coverage: 0.25, accuracy: 1 },
+      { threshold: 0.9, coverage: 0.75, accuracy: 2 / 3 },
+      { threshold: 0.2, coverage: 1, accuracy: 0.5 },
+    ]);
+  });
+});
+
+describe("evaluateQueryObjectiveAI", () => {
+  const outputs: Record<string, QueryObjectiveAIOutput<string>[]> = {
+    first: [
+      { confidence: 0.4, output: "Yes" },
+      { confidence: 0.3, output: "no" },
+      { confidence: 0.3, output: "yes" },
+    ],
+    second: [
+      { confidence: 0.6, output: "no" },
+      { confidence: 0.4, output: "yes" },
+    ],
+  };
+  const runnable = (input: string) => {
+    if (!(input in outputs)) {
+      throw new ObjectiveAIError(`No outputs for ${input}.`);
+    }
+    return outputs[input];
+  };
+
+  test("merges the outputs with equals and counts failures", async () => {
+    const report = await evaluateQueryObjectiveAI(
+      runnable,
+      [
+        { input: "first", label: "YES" },
+        { input: "second", label: "yes" },
+        { input: "third", label: "yes" },
+      ],
+      {
+        equals: (a, b) => a.toLowerCase() === b.toLowerCase(),
+        calibration: "isotonic",
+      }
+    );
+    expect(
+      report.predictions.map(({ output, confidence, correct }) => ({
+        output,
+        confidence,
+        correct,
+      }))
+    ).toEqual([
+      { output: "Yes", confidence: 0.7, correct: true },
+      { output: "no", confidence: 0.6, correct: false },
+      { output: undefined, confidence: 0, correct: false },
+    ]);
+    expect(report.predictions[2].error).toBeInstanceOf(ObjectiveAIError);
+    expect(report.accuracy).toBeCloseTo(1 / 3);
+    // fitted to the merged confidences
+    expect(report.calibrator?.calibrate(0.7)).toBe(1);
+  });
+});
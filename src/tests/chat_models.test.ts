@@ -0,0 +1,720 @@
+import { describe, expect, test } from "@jest/globals";
+import { load } from "@langchain/core/load";
+import {
+  AIMessageChunk,
+  DataContentBlock,
+  HumanMessage,
+} from "@langchain/core/messages";
+import { concat } from "@langchain/core/utils/stream";
+import OpenAI from "openai";
+import { z } from "zod";
+import { ObjectiveAIBudget } from "../budget.js";
+import {
+  ChatObjectiveAI,
+  QueryChoiceMetadata,
+  QueryModelMetadata,
+  QueryObjectiveAI,
+} from "../chat_models.js";
+import {
+  BudgetExceededError,
+  ObjectiveAIError,
+  ObjectiveAIMessageConversionError,
+} from "../errors.js";
+import * as importMap from "../import_map.js";
+import { QueryObjectiveAITextOutputParser } from "../output_parser.js";
+import { FakeQueryObjectiveAI } from "../testing.js";
+
+const searchTool = {
+  name: "search",
+  description: "Searches the web.",
+  schema: z.object({ query: z.string(), limit: z.number() }),
+};
+
+const response = {
+  choices: [
+    { content: "the first answer", confidence: 0.25 },
+    { content: "the second answer", confidence: 0.75 },
+  ],
+};
+
+const chatUsage = {
+  prompt_tokens: 3,
+  completion_tokens: 2,
+  total_tokens: 5,
+  cost: 0.1,
+};
+
+// a fetch answering its requests with the given bodies, in order, as
+// server-sent events when a body is a list of chunks
+function fakeFetch(bodies: unknown[]) {
+  const requests: Record<string, unknown>[] = [];
+  const fetch = async (_url: unknown, init?: RequestInit) => {
+    requests.push(JSON.parse(String(init?.body)));
+    const body = bodies[requests.length - 1];
+    return Array.isArray(body)
+      ? new Response(
+          [...body.map((chunk) => JSON.stringify(chunk)), "[DONE]"]
+            .map((data) => `data: ${data}\n\n`)
+            .join(""),
+          { headers: { "content-type": "text/event-stream" } }
+        )
+      : new Response(JSON.stringify(body), {
+          headers: { "content-type": "application/json" },
+        });
+  };
+  return { fetch, requests };
+}
+
+// an OpenAI client answering its requests with fakeFetch
+function fakeClient(bodies: unknown[]) {
+  const { fetch, requests } = fakeFetch(bodies);
+  const client = new OpenAI({
+    apiKey: "sk-test",
+    baseURL: "https://example.com",
+    maxRetries: 0,
+    fetch,
+  });
+  return { client, requests };
+}
+
+// runs fn with the given environment variables, unset if undefined
+function withEnvironment<T>(
+  variables: Record<string, string | undefined>,
+  fn: () => T
+): T {
+  // eslint-disable-next-line no-process-env
+  const { env } = process;
+  const previous = Object.fromEntries(
+    Object.keys(variables).map((name) => [name, env[name]])
+  );
+  const assign = (values: Record<string, string | undefined>) => {
+    for (const [name, value] of Object.entries(values)) {
+      if (value === undefined) {
+        delete env[name];
+      } else {
+        env[name] = value;
+      }
+    }
+  };
+  assign(variables);
+  try {
+    return fn();
+  } finally {
+    assign(previous);
+  }
+}
+
+// a Query completion with a single, certain choice
+const queryCompletion = {
+  id: "query-1",
+  choices: [
+    {
+      message: { role: "assistant", content: "answer", refusal: null },
+      finish_reason: "stop",
+      index: 0,
+      generate_id: "generate-0",
+      confidence_id: null,
+      confidence_weight: null,
+      confidence: 1,
+      model: "model-a",
+      model_index: 0,
+      completion_metadata: { id: "query-1-0", created: 0, model: "model-a" },
+    },
+  ],
+  created: 0,
+  model: "query-model",
+  object: "chat.completion",
+  usage: chatUsage,
+};
+
+function chatCompletion(message: Record<string, unknown>) {
+  return {
+    id: "chat-1",
+    choices: [
+      {
+        index: 0,
+        message: { role: "assistant", content: null, ...message },
+        finish_reason: "tool_calls" in message ? "tool_calls" : "stop",
+      },
+    ],
+    created: 0,
+    model: "chat-model",
+    object: "chat.completion",
+    usage: chatUsage,
+  };
+}
+
+function chatCompletionChunk(
+  choices: Record<string, unknown>[],
+  usage?: typeof chatUsage
+) {
+  return {
+    id: "chat-1",
+    choices,
+    created: 0,
+    model: "chat-model",
+    object: "chat.completion.chunk",
+    usage,
+  };
+}
+
+describe("QueryObjectiveAI", () => {
+  test.each(["choices", "winner"] as const)(
+    "streams the same message as it invokes, with content_format %s",
+    async (content_format) => {
+      const model = new FakeQueryObjectiveAI({
+        responses: [response],
+        content_format,
+      });
+      const message = await model.invoke("question");
+      let streamed: AIMessageChunk | undefined;
+      for await (const chunk of await model.stream("question")) {
+        streamed = streamed === undefined ? chunk : concat(streamed, chunk);
+      }
+      expect(streamed?.content).toEqual(message.content);
+      expect(streamed?.additional_kwargs).toEqual(message.additional_kwargs);
+      expect(message.additional_kwargs.choice_contents).toEqual({
+        0: "the first answer",
+        1: "the second answer",
+      });
+    }
+  );
+
+  test("binds tools and takes tool calls from the winning choice", async () => {
+    const model = new FakeQueryObjectiveAI({
+      responses: [
+        {
+          choices: [
+            {
+              confidence: 0.6,
+              tool_calls: [{ name: "search", args: { query: "a" } }],
+            },
+            {
+              confidence: 0.4,
+              tool_calls: [{ name: "search", args: { query: "b" } }],
+            },
+          ],
+        },
+      ],
+    });
+    const message = await model
+      .bindTools([searchTool], { tool_choice: "search" })
+      .invoke("question");
+    expect(model.requests[0].tools?.[0]).toMatchObject({
+      type: "function",
+      function: { name: "search" },
+    });
+    expect(model.requests[0].tool_choice).toEqual({
+      type: "function",
+      function: { name: "search" },
+    });
+    expect(message.tool_calls).toMatchObject([
+      { name: "search", args: { query: "a" } },
+    ]);
+  });
+
+  test("streams partial outputs of every choice before the ranked outputs", async () => {
+    const chain = new FakeQueryObjectiveAI({ responses: [response] }).pipe(
+      new QueryObjectiveAITextOutputParser()
+    );
+    const outputs = [];
+    for await (const output of await chain.stream("question")) {
+      outputs.push(output);
+    }
+    expect(outputs[0]).toEqual([{ confidence: 0, output: "the " }]);
+    expect(outputs).toContainEqual([
+      { confidence: 0, output: "the first answer" },
+      { confidence: 0, output: "the " },
+    ]);
+    expect(outputs[outputs.length - 1]).toEqual([
+      { confidence: 0.75, output: "the second answer" },
+      { confidence: 0.25, output: "the first answer" },
+    ]);
+  });
+});
+
+describe("vote metadata", () => {
+  const usage = (total_tokens: number, cost: number) => ({
+    prompt_tokens: total_tokens - 1,
+    completion_tokens: 1,
+    total_tokens,
+    cost,
+  });
+  // each model generates an output, and votes for the output of model-a
+  const votes = {
+    choices: [
+      {
+        content: "yes",
+        confidence: 0.75,
+        model: "model-a",
+        usage: usage(2, 0.1),
+      },
+      {
+        content: "no",
+        confidence: 0.25,
+        model: "model-b",
+        usage: usage(3, 0.2),
+      },
+      {
+        confidence_id: "fake-generate-0",
+        confidence_weight: 2,
+        model: "model-a",
+        usage: usage(4, 0.05),
+      },
+      {
+        confidence_id: "fake-generate-0",
+        confidence_weight: 1,
+        model: "model-b",
+        usage: usage(5, 0.01),
+      },
+    ],
+  };
+  const byIndex = (choices: QueryChoiceMetadata[]) =>
+    [...choices].sort((a, b) => a.index - b.index);
+
+  test("breaks the votes down by choice and by model", async () => {
+    const model = new FakeQueryObjectiveAI({ responses: [votes] });
+    const { response_metadata } = await model.invoke("question");
+    const choices = byIndex(response_metadata.choices);
+    expect(choices).toHaveLength(4);
+    expect(choices[0]).toMatchObject({
+      generate_id: "fake-generate-0",
+      confidence: 0.75,
+      model: "model-a",
+      finish_reason: "stop",
+      usage: { input_tokens: 1, output_tokens: 1, total_tokens: 2 },
+      cost: 0.1,
+    });
+    expect(choices[2]).toMatchObject({
+      generate_id: null,
+      confidence_id: "fake-generate-0",
+      confidence_weight: 2,
+      model: "model-a",
+    });
+    const { models } = response_metadata as { models: QueryModelMetadata[] };
+    expect(models.map(({ model }) => model)).toEqual(["model-a", "model-b"]);
+    expect(models[0]).toMatchObject({
+      generate_count: 1,
+      vote_count: 1,
+      vote_weight: 2,
+      confidence: 0.75,
+      usage: { input_tokens: 4, output_tokens: 2, total_tokens: 6 },
+    });
+    expect(models[0].cost).toBeCloseTo(0.15);
+    expect(models[1]).toMatchObject({
+      generate_count: 1,
+      vote_count: 1,
+      vote_weight: 1,
+      confidence: 0.25,
+    });
+  });
+
+  test("streams the same breakdown as it invokes", async () => {
+    const model = new FakeQueryObjectiveAI({ responses: [votes] });
+    const message = await model.invoke("question");
+    let streamed: AIMessageChunk | undefined;
+    for await (const chunk of await model.stream("question")) {
+      streamed = streamed === undefined ? chunk : concat(streamed, chunk);
+    }
+    expect(byIndex(streamed?.response_metadata.choices)).toEqual(
+      byIndex(message.response_metadata.choices)
+    );
+    expect(streamed?.response_metadata.models).toEqual(
+      message.response_metadata.models
+    );
+  });
+});
+
+describe("tool_call_consensus", () => {
+  // two choices agree on an action, with args in a different key order,
+  // against a single more confident choice
+  const response = {
+    choices: [
+      {
+        confidence: 0.4,
+        tool_calls: [{ name: "search", args: { query: "c", limit: 1 } }],
+      },
+      {
+        confidence: 0.35,
+        tool_calls: [{ name: "search", args: { query: "a", limit: 1 } }],
+      },
+      {
+        confidence: 0.25,
+        tool_calls: [{ name: "search", args: '{"limit": 1, "query": "a"}' }],
+      },
+    ],
+  };
+
+  test("takes the tool calls of the winning action", async () => {
+    const model = new FakeQueryObjectiveAI({
+      responses: [response],
+      tool_call_consensus: { min_share: 0.7 },
+    });
+    const message = await model.bindTools([searchTool]).invoke("question");
+    expect(message.tool_calls).toMatchObject([
+      { name: "search", args: { query: "a", limit: 1 } },
+    ]);
+    const consensus = message.response_metadata.tool_call_consensus;
+    expect(consensus.actions).toHaveLength(2);
+    expect(consensus.actions[0].share).toBeCloseTo(0.6);
+    expect(consensus.actions[1].share).toBeCloseTo(0.4);
+    expect(consensus.low_consensus).toBe(true);
+  });
+
+  test("streams the same tool calls as it invokes", async () => {
+    const model = new FakeQueryObjectiveAI({
+      responses: [response],
+      tool_call_consensus: true,
+    });
+    const message = await model.invoke("question");
+    let streamed: AIMessageChunk | undefined;
+    for await (const chunk of await model.stream("question")) {
+      streamed = streamed === undefined ? chunk : concat(streamed, chunk);
+    }
+    expect(streamed?.tool_calls).toEqual(message.tool_calls);
+  });
+
+  test("gives functionCalling outputs the share of the winning action", async () => {
+    const model = new FakeQueryObjectiveAI({
+      responses: [response],
+      tool_call_consensus: true,
+    });
+    const outputs = await model
+      .withStructuredOutput(searchTool.schema, {
+        name: "search",
+        method: "functionCalling",
+      })
+      .invoke("question");
+    expect(outputs).toHaveLength(1);
+    expect(outputs[0].output).toEqual({ query: "a", limit: 1 });
+    expect(outputs[0].confidence).toBeCloseTo(0.6);
+  });
+});
+
+describe("content blocks", () => {
+  // the content parts of the user message sent for the content
+  async function send(content: HumanMessage["content"]) {
+    const model = new FakeQueryObjectiveAI({ responses: [response] });
+    await model.invoke([new HumanMessage({ content })]);
+    return model.requests[0].messages[0].content;
+  }
+
+  test("converts standard data content blocks", async () => {
+    const parts = await send([
+      { type: "text", source_type: "text", text: "describe these" },
+      { type: "image", source_type: "url", url: "https://example.com/a.png" },
+      {
+        type: "image",
+        source_type: "base64",
+        mime_type: "image/png",
+        data: "aW1hZ2U=",
+      },
+      {
+        type: "audio",
+        source_type: "base64",
+        mime_type: "audio/wav",
+        data: "YXVkaW8=",
+      },
+      {
+        type: "file",
+        source_type: "base64",
+        mime_type: "application/pdf",
+        data: "ZmlsZQ==",
+        metadata: { filename: "a.pdf" },
+      },
+      { type: "file", source_type: "id", id: "file-1" },
+    ]);
+    expect(parts).toEqual([
+      { type: "text", text: "describe these" },
+      { type: "image_url", image_url: { url: "https://example.com/a.png" } },
+      {
+        type: "image_url",
+        image_url: { url: "data:image/png;base64,aW1hZ2U=" },
+      },
+      { type: "input_audio", input_audio: { data: "YXVkaW8=", format: "wav" } },
+      {
+        type: "file",
+        file: {
+          file_data: "data:application/pdf;base64,ZmlsZQ==",
+          filename: "a.pdf",
+        },
+      },
+      { type: "file", file: { file_id: "file-1" } },
+    ]);
+  });
+
+  test("passes OpenAI-style audio and file parts through", async () => {
+    const parts = await send([
+      { type: "input_audio", input_audio: { data: "YXVkaW8=", format: "mp3" } },
+      { type: "file", file: { file_id: "file-1", filename: "a.pdf" } },
+    ]);
+    expect(parts).toEqual([
+      { type: "input_audio", input_audio: { data: "YXVkaW8=", format: "mp3" } },
+      { type: "file", file: { file_id: "file-1", filename: "a.pdf" } },
+    ]);
+  });
+
+  test.each([
+    [
+      "base64 audio other than wav or mp3",
+      {
+        type: "audio",
+        source_type: "base64",
+        mime_type: "audio/ogg",
+        data: "YXVkaW8=",
+      },
+      'Unsupported "audio" content block with source_type "base64" in user message',
+    ],
+    [
+      "audio from a URL",
+      { type: "audio", source_type: "url", url: "https://example.com/a.wav" },
+      'Unsupported "audio" content block with source_type "url" in user message',
+    ],
+  ])("refuses %s", async (_name, block, message) => {
+    const error = await send([block as DataContentBlock]).catch((e) => e);
+    expect(error).toBeInstanceOf(ObjectiveAIMessageConversionError);
+    expect(error.message).toContain(message);
+  });
+});
+
+describe("ChatObjectiveAI", () => {
+  test("generates a message with its usage", async () => {
+    const { client, requests } = fakeClient([
+      chatCompletion({ content: "answer" }),
+    ]);
+    const model = new ChatObjectiveAI({
+      model: "chat-model",
+      client,
+      maxRetries: 0,
+    });
+    const message = await model.invoke("question");
+    expect(message.content).toBe("answer");
+    expect(message.usage_metadata).toMatchObject({
+      input_tokens: 3,
+      output_tokens: 2,
+      total_tokens: 5,
+    });
+    expect(message.response_metadata.finish_reason).toBe("stop");
+    expect(requests[0]).toMatchObject({
+      model: "chat-model",
+      messages: [{ role: "user", content: "question" }],
+      stream: false,
+    });
+  });
+
+  test("binds tools and parses tool calls", async () => {
+    const { client, requests } = fakeClient([
+      chatCompletion({
+        tool_calls: [
+          {
+            id: "call-1",
+            type: "function",
+            function: { name: "search", arguments: '{"query":"a","limit":1}' },
+          },
+        ],
+      }),
+    ]);
+    const model = new ChatObjectiveAI({
+      model: "chat-model",
+      client,
+      maxRetries: 0,
+    });
+    const message = await model.bindTools([searchTool]).invoke("question");
+    expect(requests[0].tools).toMatchObject([
+      { type: "function", function: { name: "search" } },
+    ]);
+    expect(message.tool_calls).toEqual([
+      {
+        id: "call-1",
+        name: "search",
+        args: { query: "a", limit: 1 },
+        type: "tool_call",
+      },
+    ]);
+  });
+
+  test("streams the content, then the usage", async () => {
+    const { client, requests } = fakeClient([
+      [
+        chatCompletionChunk([
+          { index: 0, delta: { content: "an" }, finish_reason: null },
+        ]),
+        chatCompletionChunk([
+          { index: 0, delta: { content: "swer" }, finish_reason: "stop" },
+        ]),
+        chatCompletionChunk([], chatUsage),
+      ],
+    ]);
+    const model = new ChatObjectiveAI({
+      model: "chat-model",
+      client,
+      maxRetries: 0,
+    });
+    let streamed: AIMessageChunk | undefined;
+    for await (const chunk of await model.stream("question")) {
+      streamed = streamed === undefined ? chunk : concat(streamed, chunk);
+    }
+    expect(streamed?.content).toBe("answer");
+    expect(streamed?.usage_metadata?.total_tokens).toBe(5);
+    expect(requests[0]).toMatchObject({
+      stream: true,
+      stream_options: { include_usage: true },
+    });
+  });
+
+  test("records costs in the budget, and refuses calls once it is spent", async () => {
+    const { client, requests } = fakeClient([
+      chatCompletion({ content: "answer" }),
+      chatCompletion({ content: "answer" }),
+    ]);
+    const budget = new ObjectiveAIBudget({ max_cost: 0.15 });
+    const model = new ChatObjectiveAI({
+      model: "chat-model",
+      client,
+      budget,
+      maxRetries: 0,
+    });
+    await model.invoke("question");
+    await model.invoke("question");
+    expect(budget.spent).toBeCloseTo(0.2);
+    await expect(model.invoke("question")).rejects.toThrow(BudgetExceededError);
+    expect(requests).toHaveLength(2);
+  });
+});
+
+describe("clients", () => {
+  test("reuses its client until the openai options change", () => {
+    const model = new QueryObjectiveAI({
+      model: "query-model",
+      openai: { apiKey: "sk-test" },
+    });
+    const client = model.getClient(model.openai);
+    expect(model.getClient({ ...model.openai })).toBe(client);
+    expect(model.getClient({ ...model.openai, apiKey: "sk-other" })).not.toBe(
+      client
+    );
+  });
+
+  test("sends requests through an injected client", async () => {
+    const { client, requests } = fakeClient([queryCompletion]);
+    const model = new QueryObjectiveAI({
+      model: "query-model",
+      client,
+      maxRetries: 0,
+    });
+    expect(model.getClient(model.openai)).toBe(client);
+    const message = await model.invoke("question");
+    expect(message.content).toContain("answer");
+    expect(requests).toHaveLength(1);
+    expect(requests[0]).toMatchObject({
+      model: "query-model",
+      messages: [{ role: "user", content: "question" }],
+    });
+  });
+
+  test("sends requests through a custom fetch", async () => {
+    const { fetch, requests } = fakeFetch([queryCompletion, queryCompletion]);
+    const model = new QueryObjectiveAI({
+      model: "query-model",
+      openai: { apiKey: "sk-test", baseURL: "https://example.com" },
+      fetch,
+      maxRetries: 0,
+    });
+    await model.invoke("question");
+    await model.invoke("question");
+    expect(requests).toHaveLength(2);
+  });
+
+  test("refuses to build a client without an ObjectiveAI key", async () => {
+    const model = withEnvironment(
+      { OBJECTIVEAI_API_KEY: undefined, OPENAI_API_KEY: "sk-openai" },
+      () => new QueryObjectiveAI({ model: "query-model", maxRetries: 0 })
+    );
+    const error = await model.invoke("question").catch((e) => e);
+    expect(ObjectiveAIError.isInstance(error)).toBe(true);
+    expect(error.message).toContain("OBJECTIVEAI_API_KEY");
+  });
+
+  test("defaults the client options left undefined", () => {
+    const model = withEnvironment(
+      {
+        OBJECTIVEAI_API_KEY: "sk-environment",
+        OBJECTIVEAI_BASE_URL: undefined,
+      },
+      () =>
+        new QueryObjectiveAI({
+          model: "query-model",
+          openai: { apiKey: undefined, baseURL: undefined, timeout: 1000 },
+        })
+    );
+    expect(model.openai).toEqual({
+      apiKey: "sk-environment",
+      baseURL: "https://api.objective-ai.io",
+      timeout: 1000,
+    });
+  });
+});
+
+describe("serialization", () => {
+  test("loads a QueryObjectiveAI, without its secrets", async () => {
+    const model = new QueryObjectiveAI({
+      model: "query-model",
+      openai: { apiKey: "sk-test", baseURL: "https://example.com" },
+      content_format: "winner",
+      tool_call_consensus: { min_share: 0.5 },
+    });
+    const serialized = JSON.stringify(model);
+    expect(serialized).not.toContain("sk-test");
+    const loaded = await load<QueryObjectiveAI>(serialized, {
+      importMap,
+      secretsMap: { OBJECTIVEAI_API_KEY: "loaded-secret" },
+    });
+    expect(loaded).toBeInstanceOf(QueryObjectiveAI);
+    expect(loaded.chat_completion_create_params).toEqual({
+      model: "query-model",
+    });
+    expect(loaded.openai).toEqual({
+      apiKey: "loaded-secret",
+      baseURL: "https://example.com",
+    });
+    expect(loaded.content_format).toBe("winner");
+    expect(loaded.tool_call_consensus).toEqual({ min_share: 0.5 });
+  });
+
+  test("serializes only the client options given, of those allowed", () => {
+    const model = withEnvironment(
+      { OBJECTIVEAI_BASE_URL: "https://environment.example.com" },
+      () =>
+        new QueryObjectiveAI({
+          model: "query-model",
+          openai: {
+            apiKey: "sk-test",
+            defaultHeaders: { "x-api-key": "header-secret" },
+          },
+        })
+    );
+    expect(model.openai.baseURL).toBe("https://environment.example.com");
+    const serialized = JSON.stringify(model);
+    expect(serialized).not.toContain("header-secret");
+    expect(serialized).not.toContain("environment.example.com");
+    expect(JSON.parse(serialized).kwargs.openai).toEqual({
+      apiKey: { lc: 1, type: "secret", id: ["OBJECTIVEAI_API_KEY"] },
+    });
+  });
+
+  test("loads a ChatObjectiveAI", async () => {
+    const model = new ChatObjectiveAI({
+      model: "chat-model",
+      openai: { apiKey: "sk-test", baseURL: "https://example.com" },
+    });
+    const loaded = await load<ChatObjectiveAI>(JSON.stringify(model), {
+      importMap,
+      secretsMap: { OBJECTIVEAI_API_KEY: "loaded-secret" },
+    });
+    expect(loaded).toBeInstanceOf(ChatObjectiveAI);
+    expect(loaded.chat_completion_create_params).toEqual({
+      model: "chat-model",
+    });
+    expect(loaded.openai.apiKey).toBe("loaded-secret");
+  });
+});
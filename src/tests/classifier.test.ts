@@ -0,0 +1,73 @@
+import { describe, expect, test } from "@jest/globals";
+import { PromptTemplate } from "@langchain/core/prompts";
+import { QueryObjectiveAIClassifier } from "../classifier.js";
+import { FakeQueryObjectiveAI } from "../testing.js";
+
+// labels are filled in by the classifier
+const prompt = PromptTemplate.fromTemplate<{ text: string }>(
+  "Classify the sentiment of: {text}\n{labels}"
+);
+
+describe("QueryObjectiveAIClassifier", () => {
+  test("returns a distribution over every label, and the argmax", async () => {
+    const model = new FakeQueryObjectiveAI({
+      responses: [
+        {
+          choices: [
+            { content: '{"label": "positive"}', confidence: 0.5 },
+            { content: '{"label": "negative"}', confidence: 0.2 },
+            { content: '{"label": "positive"}', confidence: 0.2 },
+            // failures do not count towards the distribution
+            { content: "not json", confidence: 0.1 },
+          ],
+        },
+      ],
+    });
+    const classifier = new QueryObjectiveAIClassifier({
+      model,
+      labels: [
+        "positive",
+        "negative",
+        { label: "neutral", description: "neither positive nor negative" },
+      ],
+      prompt,
+    });
+    const result = await classifier.invoke({ text: "great" });
+    expect(result.label).toBe("positive");
+    expect(result.labels).toEqual(["positive"]);
+    expect(result.probabilities.positive).toBeCloseTo(7 / 9);
+    expect(result.probabilities.negative).toBeCloseTo(2 / 9);
+    expect(result.probabilities.neutral).toBe(0);
+    // the labels are constrained by the response format, and described in
+    // the prompt
+    expect(model.requests[0].response_format).toMatchObject({
+      type: "json_schema",
+      json_schema: { name: "classification", strict: true },
+    });
+    expect(JSON.stringify(model.requests[0].messages)).toContain(
+      "neutral: neither positive nor negative"
+    );
+  });
+
+  test("selects every label at or above the threshold in multi-label mode", async () => {
+    const classifier = new QueryObjectiveAIClassifier({
+      model: new FakeQueryObjectiveAI({
+        responses: [
+          {
+            choices: [
+              { content: '{"labels": ["a", "b"]}', confidence: 0.6 },
+              { content: '{"labels": ["b", "b"]}', confidence: 0.4 },
+            ],
+          },
+        ],
+      }),
+      labels: ["a", "b", "c"],
+      prompt,
+      multi_label: true,
+      threshold: 0.5,
+    });
+    const result = await classifier.invoke({ text: "text" });
+    expect(result.probabilities).toEqual({ a: 0.6, b: 1, c: 0 });
+    expect(result.labels).toEqual(["a", "b"]);
+  });
+});
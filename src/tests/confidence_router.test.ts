@@ -0,0 +1,71 @@
+import { describe, expect, test } from "@jest/globals";
+import { RunnableLambda } from "@langchain/core/runnables";
+import {
+  QueryObjectiveAIConfidenceRouter,
+  QueryObjectiveAIConfidenceRouterBranchInput,
+} from "../confidence_router.js";
+import { QueryObjectiveAITextOutputParser } from "../output_parser.js";
+import { FakeQueryObjectiveAI } from "../testing.js";
+
+function router(confidences: number[]) {
+  return new QueryObjectiveAIConfidenceRouter({
+    runnable: new FakeQueryObjectiveAI({
+      responses: [
+        {
+          choices: confidences.map((confidence, i) => ({
+            content: `answer ${i}`,
+            confidence,
+          })),
+        },
+      ],
+    }).pipe(new QueryObjectiveAITextOutputParser()),
+    min_confidence: 0.5,
+    min_margin: 0.2,
+    // each branch reports the route it was given in its run metadata
+    accept: RunnableLambda.from((_input: unknown, config) => ({
+      branch: "accept",
+      route: config?.metadata?.objectiveai_confidence_route,
+    })),
+    low_confidence: RunnableLambda.from((_input: unknown, config) => ({
+      branch: "low_confidence",
+      route: config?.metadata?.objectiveai_confidence_route,
+    })),
+  });
+}
+
+describe("QueryObjectiveAIConfidenceRouter", () => {
+  test("accepts a confident winner", async () => {
+    expect(await router([0.7, 0.3]).invoke("question")).toEqual({
+      branch: "accept",
+      route: "accept",
+    });
+  });
+
+  test.each([
+    ["a low top confidence", [0.45, 0.2, 0.35]],
+    ["a low margin", [0.55, 0.45]],
+  ])("routes %s to low_confidence", async (_name, confidences) => {
+    expect(await router(confidences).invoke("question")).toEqual({
+      branch: "low_confidence",
+      route: "low_confidence",
+    });
+  });
+
+  test("passes the input and the outputs to the branch", async () => {
+    const branch = RunnableLambda.from(
+      (input: QueryObjectiveAIConfidenceRouterBranchInput<unknown, string>) =>
+        input
+    );
+    const result = await new QueryObjectiveAIConfidenceRouter({
+      runnable: new FakeQueryObjectiveAI({
+        responses: [{ choices: [{ content: "answer", confidence: 1 }] }],
+      }).pipe(new QueryObjectiveAITextOutputParser()),
+      accept: branch,
+      low_confidence: branch,
+    }).invoke("question");
+    expect(result).toEqual({
+      input: "question",
+      outputs: [{ confidence: 1, output: "answer" }],
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, expect, test } from "@jest/globals";
+import { Document } from "@langchain/core/documents";
+import { QueryObjectiveAIDocumentCompressor } from "../document_compressors.js";
+import { FakeQueryObjectiveAI } from "../testing.js";
+
+const documents = ["a", "b", "c"].map(
+  (pageContent) =>
+    new Document({ pageContent, metadata: { source: pageContent } })
+);
+
+// a relevance judgment, relevant with the given confidence
+function relevance(relevant: number) {
+  return {
+    choices: [
+      { content: '{"label": "relevant"}', confidence: relevant },
+      { content: '{"label": "irrelevant"}', confidence: 1 - relevant },
+    ],
+  };
+}
+
+describe("QueryObjectiveAIDocumentCompressor", () => {
+  test("keeps the top_k most relevant documents, scored in metadata_key", async () => {
+    const model = new FakeQueryObjectiveAI({
+      responses: [relevance(0.2), relevance(0.9), relevance(0.6)],
+    });
+    const compressor = new QueryObjectiveAIDocumentCompressor({
+      model,
+      top_k: 2,
+      metadata_key: "score",
+      max_concurrency: 1,
+    });
+    const compressed = await compressor.compressDocuments(documents, "query");
+    expect(compressed.map(({ pageContent }) => pageContent)).toEqual([
+      "b",
+      "c",
+    ]);
+    expect(compressed[0].metadata).toEqual({ source: "b", score: 0.9 });
+    expect(compressed[1].metadata.score).toBeCloseTo(0.6);
+    expect(model.requests).toHaveLength(3);
+  });
+
+  test("drops the documents scored under min_confidence", async () => {
+    const compressor = new QueryObjectiveAIDocumentCompressor({
+      model: new FakeQueryObjectiveAI({
+        responses: [relevance(0.2), relevance(0.9), relevance(0.5)],
+      }),
+      min_confidence: 0.5,
+      max_concurrency: 1,
+    });
+    const compressed = await compressor.compressDocuments(documents, "query");
+    expect(compressed.map(({ metadata }) => metadata.relevance_score)).toEqual([
+      0.9, 0.5,
+    ]);
+  });
+
+  test("judges at most max_concurrency documents at once", async () => {
+    let running = 0;
+    let most = 0;
+    const model = new FakeQueryObjectiveAI({ responses: [relevance(1)] });
+    const compressor = new QueryObjectiveAIDocumentCompressor({
+      model,
+      max_concurrency: 2,
+    });
+    const compressed = await compressor.compressDocuments(
+      [...documents, new Document({ pageContent: "d" })],
+      "query",
+      [
+        {
+          handleChatModelStart: async () => {
+            running += 1;
+            most = Math.max(most, running);
+          },
+          handleLLMEnd: async () => {
+            running -= 1;
+          },
+        },
+      ]
+    );
+    expect(compressed).toHaveLength(4);
+    expect(most).toBe(2);
+  });
+
+  test("selects among every document with a single Query in select mode", async () => {
+    const model = new FakeQueryObjectiveAI({
+      responses: [
+        {
+          choices: [
+            { content: '{"label": "2"}', confidence: 0.7 },
+            { content: '{"label": "3"}', confidence: 0.3 },
+          ],
+        },
+      ],
+    });
+    const compressor = new QueryObjectiveAIDocumentCompressor({
+      model,
+      mode: "select",
+    });
+    const compressed = await compressor.compressDocuments(documents, "query");
+    expect(compressed.map(({ pageContent }) => pageContent)).toEqual([
+      "b",
+      "c",
+      "a",
+    ]);
+    expect(compressed.map(({ metadata }) => metadata.relevance_score)).toEqual([
+      0.7, 0.3, 0,
+    ]);
+    expect(model.requests).toHaveLength(1);
+    expect(JSON.stringify(model.requests[0].messages)).toContain("[2]\\nb");
+  });
+});
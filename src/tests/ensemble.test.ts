@@ -0,0 +1,150 @@
+import { describe, expect, test } from "@jest/globals";
+import { AIMessageChunk } from "@langchain/core/messages";
+import { PromptTemplate } from "@langchain/core/prompts";
+import { concat } from "@langchain/core/utils/stream";
+import {
+  FakeListChatModel,
+  FakeStreamingChatModel,
+} from "@langchain/core/utils/testing";
+import { QueryChoiceMetadata, sumQueryUsage } from "../chat_models.js";
+import { QueryObjectiveAIClassifier } from "../classifier.js";
+import { EnsembleQueryModel } from "../ensemble.js";
+import { ObjectiveAIResponseError } from "../errors.js";
+import { registerQueryObjectiveAIPreset } from "../presets.js";
+
+const prompt = PromptTemplate.fromTemplate<{ text: string }>(
+  "Classify the sentiment of: {text}\n{labels}"
+);
+
+function member(response: string) {
+  return new FakeListChatModel({ responses: [response] });
+}
+
+// streams its first chunk, then fails
+class FailingMidStreamChatModel extends FakeStreamingChatModel {
+  async *_streamResponseChunks(
+    ...args: Parameters<FakeStreamingChatModel["_streamResponseChunks"]>
+  ) {
+    const first = await super._streamResponseChunks(...args).next();
+    if (first.done !== true) {
+      yield first.value;
+    }
+    throw new Error("cut off");
+  }
+}
+
+describe("EnsembleQueryModel", () => {
+  test("votes across the models of a classifier", async () => {
+    const model = new EnsembleQueryModel({
+      models: [
+        member('{"label": "positive"}'),
+        // equal as JSON, if not as text
+        member('{ "label": "positive" }'),
+        member('{"label": "negative"}'),
+      ],
+    });
+    const classifier = new QueryObjectiveAIClassifier<{ text: string }>({
+      model,
+      labels: ["positive", "negative"],
+      prompt,
+    });
+    const tags: string[][] = [];
+    const result = await classifier.invoke(
+      { text: "great" },
+      {
+        callbacks: [
+          {
+            handleChatModelStart: async (
+              _llm,
+              _messages,
+              _runId,
+              _parentRunId,
+              _extraParams,
+              runTags
+            ) => {
+              tags.push(runTags ?? []);
+            },
+          },
+        ],
+      }
+    );
+    expect(result.label).toBe("positive");
+    expect(result.probabilities.positive).toBeCloseTo(2 / 3);
+    expect(result.probabilities.negative).toBeCloseTo(1 / 3);
+    // the runs of the models are nested under the run of the ensemble
+    expect(
+      tags.filter((t) => t.some((tag) => tag.startsWith("member:")))
+    ).toHaveLength(3);
+  });
+
+  test("fails without retrying when every model fails", async () => {
+    const failing = () =>
+      new FakeStreamingChatModel({ thrownErrorString: "down", maxRetries: 0 });
+    const model = new EnsembleQueryModel({ models: [failing(), failing()] });
+    const error = await model.invoke("question").catch((e) => e);
+    expect(error).toBeInstanceOf(ObjectiveAIResponseError);
+    expect(error.retryable).toBe(false);
+    expect(error.raw).toContain("down");
+  });
+
+  test("drops the partial output of a model failing mid-stream", async () => {
+    const model = new EnsembleQueryModel({
+      models: [
+        member("answer"),
+        new FailingMidStreamChatModel({
+          chunks: [new AIMessageChunk("partial"), new AIMessageChunk(" rest")],
+        }),
+      ],
+      content_format: "winner",
+    });
+    let streamed: AIMessageChunk | undefined;
+    for await (const chunk of await model.stream("question")) {
+      streamed = streamed === undefined ? chunk : concat(streamed, chunk);
+    }
+    expect(streamed?.content).toBe("answer");
+    const choices = streamed?.response_metadata
+      .choices as QueryChoiceMetadata[];
+    const failed = choices.find(({ index }) => index === 1);
+    expect(failed).toMatchObject({
+      generate_id: null,
+      confidence: null,
+      finish_reason: "error",
+    });
+    expect(JSON.stringify(streamed?.additional_kwargs.outputs)).not.toContain(
+      "partial"
+    );
+  });
+
+  test("keeps the model of its preset", () => {
+    registerQueryObjectiveAIPreset("test-ensemble", {
+      chat_completion_create_params: { model: "preset-model" },
+    });
+    expect(
+      new EnsembleQueryModel({ models: [member("answer")] })
+        .chat_completion_create_params.model
+    ).toBe("ensemble");
+    expect(
+      new EnsembleQueryModel({
+        models: [member("answer")],
+        preset: "test-ensemble",
+      }).chat_completion_create_params.model
+    ).toBe("preset-model");
+  });
+
+  test("sums the usage and cost of the models", async () => {
+    const usage = (cost?: number) => ({
+      prompt_tokens: 1,
+      completion_tokens: 2,
+      total_tokens: 3,
+      ...(cost !== undefined ? { cost } : {}),
+    });
+    expect(sumQueryUsage([usage(0.1), usage(), usage(0.2)])).toEqual({
+      prompt_tokens: 3,
+      completion_tokens: 6,
+      total_tokens: 9,
+      cost: expect.closeTo(0.3),
+    });
+    expect(sumQueryUsage([usage()])).toEqual(usage());
+    expect(sumQueryUsage([])).toBeUndefined();
+  });
+});
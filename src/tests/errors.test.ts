@@ -0,0 +1,80 @@
+import { describe, expect, test } from "@jest/globals";
+import {
+  APIConnectionError,
+  APIConnectionTimeoutError,
+  APIError,
+  APIUserAbortError,
+} from "openai";
+import {
+  ObjectiveAIAPIError,
+  ObjectiveAIResponseError,
+  ObjectiveAITimeoutError,
+  objectiveAIFailedAttemptHandler,
+  toObjectiveAIError,
+} from "../errors.js";
+
+const apiError = (status: number) =>
+  APIError.generate(
+    status,
+    { error: { message: "failed" } },
+    undefined,
+    new Headers({ "x-request-id": "request" })
+  );
+
+describe("toObjectiveAIError", () => {
+  test.each([
+    [400, false],
+    [401, false],
+    [408, true],
+    [429, true],
+    [500, true],
+  ])("classifies a %s response by status", (status, retryable) => {
+    const error = toObjectiveAIError(apiError(status));
+    expect(error).toBeInstanceOf(ObjectiveAIAPIError);
+    expect(error).toMatchObject({
+      status,
+      retryable,
+      raw: JSON.stringify({ message: "failed" }),
+    });
+  });
+
+  test("retries connection failures and timeouts", () => {
+    const connection = toObjectiveAIError(
+      new APIConnectionError({ message: "refused" })
+    );
+    expect(connection).toBeInstanceOf(ObjectiveAIAPIError);
+    expect(connection).toMatchObject({ status: undefined, retryable: true });
+    expect(toObjectiveAIError(new APIConnectionTimeoutError())).toBeInstanceOf(
+      ObjectiveAITimeoutError
+    );
+  });
+
+  test("passes aborts, ObjectiveAI errors and other errors through", () => {
+    const abort = new APIUserAbortError();
+    const response = new ObjectiveAIResponseError("bad", { raw: "" });
+    const other = new TypeError("other");
+    expect(toObjectiveAIError(abort)).toBe(abort);
+    expect(toObjectiveAIError(response)).toBe(response);
+    expect(toObjectiveAIError(other)).toBe(other);
+  });
+});
+
+describe("objectiveAIFailedAttemptHandler", () => {
+  test("stops on aborts and non-retryable errors", () => {
+    expect(() =>
+      objectiveAIFailedAttemptHandler(new APIUserAbortError())
+    ).toThrow();
+    expect(() =>
+      objectiveAIFailedAttemptHandler(toObjectiveAIError(apiError(400)))
+    ).toThrow();
+  });
+
+  test("retries retryable and unknown errors", () => {
+    expect(() =>
+      objectiveAIFailedAttemptHandler(toObjectiveAIError(apiError(503)))
+    ).not.toThrow();
+    expect(() =>
+      objectiveAIFailedAttemptHandler(new TypeError("fetch failed"))
+    ).not.toThrow();
+  });
+});
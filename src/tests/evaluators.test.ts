@@ -0,0 +1,119 @@
+import { describe, expect, test } from "@jest/globals";
+import { ObjectiveAIError } from "../errors.js";
+import {
+  QueryObjectiveAICriteriaEvaluator,
+  QueryObjectiveAIPairwiseEvaluator,
+  runQueryObjectiveAIEvaluators,
+} from "../evaluators.js";
+import { FakeQueryObjectiveAI } from "../testing.js";
+
+// a choice giving the verdict, with the given confidence
+function judgment(verdict: string, confidence: number) {
+  return {
+    content: JSON.stringify({ reasoning: `it is ${verdict}`, verdict }),
+    confidence,
+  };
+}
+
+describe("QueryObjectiveAICriteriaEvaluator", () => {
+  test("scores the probability that the criteria are met", async () => {
+    const model = new FakeQueryObjectiveAI({
+      responses: [
+        {
+          choices: [
+            judgment("Y", 0.5),
+            judgment("N", 0.25),
+            { content: "not json", confidence: 0.25 },
+          ],
+        },
+      ],
+    });
+    const evaluator = new QueryObjectiveAICriteriaEvaluator({
+      model,
+      criteria: { conciseness: "Is the response concise?" },
+    });
+    const result = await evaluator.invoke({
+      input: "question",
+      prediction: "answer",
+    });
+    expect(result.key).toBe("conciseness");
+    expect(result.value).toBe("Y");
+    // the choice which fails to parse is left out
+    expect(result.score).toBeCloseTo(2 / 3);
+    expect(result.evaluatorInfo?.choices).toHaveLength(2);
+    const request = JSON.stringify(model.requests[0].messages);
+    expect(request).toContain("- conciseness: Is the response concise?");
+    expect(request).toContain("Response:\\nanswer");
+    expect(request).not.toContain("Reference:");
+    expect(model.requests[0].response_format).toMatchObject({
+      type: "json_schema",
+    });
+  });
+});
+
+describe("QueryObjectiveAIPairwiseEvaluator", () => {
+  test("counts a tie as half a preference", async () => {
+    const model = new FakeQueryObjectiveAI({
+      responses: [{ choices: [judgment("A", 0.5), judgment("tie", 0.5)] }],
+    });
+    const result = await new QueryObjectiveAIPairwiseEvaluator({
+      model,
+    }).invoke({ prediction: "first", prediction_b: "second" });
+    expect(result.key).toBe("preference");
+    expect(result.score).toBeCloseTo(0.75);
+    expect(result.evaluatorInfo?.distribution).toEqual({
+      A: 0.5,
+      B: 0,
+      tie: 0.5,
+    });
+    const request = JSON.stringify(model.requests[0].messages);
+    expect(request).toContain("Response A:\\nfirst");
+    expect(request).toContain("Response B:\\nsecond");
+  });
+});
+
+describe("runQueryObjectiveAIEvaluators", () => {
+  test("averages the scores of each key, over the examples not failed", async () => {
+    const criteria = new QueryObjectiveAICriteriaEvaluator({
+      model: new FakeQueryObjectiveAI({
+        responses: [
+          { choices: [judgment("Y", 1)] },
+          new Error("down"),
+          { choices: [judgment("Y", 0.5), judgment("N", 0.5)] },
+        ],
+      }),
+      criteria: "Is the response polite?",
+      key: "politeness",
+    });
+    const correctness = new QueryObjectiveAICriteriaEvaluator({
+      model: new FakeQueryObjectiveAI({
+        responses: [{ choices: [judgment("N", 1)] }],
+      }),
+      criteria: "Is the response correct?",
+      key: "correctness",
+    });
+    const report = await runQueryObjectiveAIEvaluators(
+      [criteria, correctness],
+      ["a", "b", "c"].map((prediction) => ({ prediction })),
+      { max_concurrency: 1 }
+    );
+    expect(report.scores.politeness).toBeCloseTo(0.75);
+    expect(report.scores.correctness).toBe(0);
+    expect(report.results.map((results) => results.length)).toEqual([2, 2, 2]);
+    expect(report.results[1][0].score).toBeUndefined();
+    expect(report.results[1][0].comment).toContain("down");
+  });
+
+  test("refuses evaluators with the same key", async () => {
+    const model = new FakeQueryObjectiveAI({
+      responses: [{ choices: [judgment("Y", 1)] }],
+    });
+    const evaluators = ["Is it polite?", "Is it correct?"].map(
+      (criteria) => new QueryObjectiveAICriteriaEvaluator({ model, criteria })
+    );
+    await expect(
+      runQueryObjectiveAIEvaluators(evaluators, [{ prediction: "a" }])
+    ).rejects.toThrow(ObjectiveAIError);
+    expect(model.requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,330 @@
+import { describe, expect, test } from "@jest/globals";
+import { load } from "@langchain/core/load";
+import { z } from "zod";
+import * as importMap from "../import_map.js";
+import {
+  QueryObjectiveAIConsensusOutputParser,
+  QueryObjectiveAICustomOutputParser,
+  QueryObjectiveAIJsonObjectOutputParser,
+  QueryObjectiveAIJsonSchemaOutputParser,
+  QueryObjectiveAITextOutputParser,
+  structuralEqual,
+  tallyQueryObjectiveAIVotes,
+  topQueryObjectiveAIVote,
+} from "../output_parser.js";
+import { FakeQueryObjectiveAI } from "../testing.js";
+
+// the winning choice does not parse
+const response = {
+  choices: [
+    { content: "not json", confidence: 0.5 },
+    { content: '{"answer": "yes"}', confidence: 0.3 },
+    { content: '{"answer": "no"}', confidence: 0.2 },
+  ],
+};
+
+describe("failure policies", () => {
+  test("strict-winner throws when the winning choice fails", async () => {
+    const chain = new FakeQueryObjectiveAI({ responses: [response] }).pipe(
+      new QueryObjectiveAIJsonObjectOutputParser()
+    );
+    await expect(chain.invoke("question")).rejects.toThrow();
+  });
+
+  test("strict-winner omits the failures of other choices", async () => {
+    const chain = new FakeQueryObjectiveAI({
+      responses: [
+        {
+          choices: [
+            { content: '{"answer": "yes"}', confidence: 0.6 },
+            { content: "not json", confidence: 0.4 },
+          ],
+        },
+      ],
+    }).pipe(new QueryObjectiveAIJsonObjectOutputParser());
+    expect(await chain.invoke("question")).toEqual([
+      { confidence: 0.6, output: { answer: "yes" } },
+    ]);
+  });
+
+  test("best-valid falls back to the choices which parse", async () => {
+    const chain = new FakeQueryObjectiveAI({ responses: [response] }).pipe(
+      new QueryObjectiveAIJsonObjectOutputParser({
+        failure_policy: "best-valid",
+      })
+    );
+    expect(await chain.invoke("question")).toEqual([
+      { confidence: 0.3, output: { answer: "yes" } },
+      { confidence: 0.2, output: { answer: "no" } },
+    ]);
+  });
+
+  test("best-valid throws when every choice fails", async () => {
+    const chain = new FakeQueryObjectiveAI({
+      responses: [{ choices: [{ content: "not json", confidence: 1 }] }],
+    }).pipe(
+      new QueryObjectiveAIJsonObjectOutputParser({
+        failure_policy: "best-valid",
+      })
+    );
+    await expect(chain.invoke("question")).rejects.toThrow();
+  });
+
+  test("report-all returns every choice, with the errors of failures", async () => {
+    const chain = new FakeQueryObjectiveAI({ responses: [response] }).pipe(
+      new QueryObjectiveAIJsonSchemaOutputParser(
+        z.object({ answer: z.enum(["yes"]) }),
+        { failure_policy: "report-all" }
+      )
+    );
+    const results = await chain.invoke("question");
+    expect(results).toHaveLength(3);
+    expect(results[0]).toMatchObject({ confidence: 0.5, raw: "not json" });
+    expect(results[1]).toEqual({ confidence: 0.3, output: { answer: "yes" } });
+    // fails the schema rather than JSON parsing
+    expect(results[2]).toMatchObject({
+      confidence: 0.2,
+      raw: '{"answer": "no"}',
+    });
+    expect("error" in results[2]).toBe(true);
+  });
+});
+
+describe("QueryObjectiveAIConsensusOutputParser", () => {
+  const consensusResponse = {
+    choices: [
+      { content: '{"a": 1, "b": 2}', confidence: 0.3 },
+      { content: '{"b": 2, "a": 1}', confidence: 0.25 },
+      { content: '{"a": 2, "b": 2}', confidence: 0.45 },
+    ],
+  };
+
+  test("sums the confidences of structurally equal outputs", async () => {
+    const chain = new FakeQueryObjectiveAI({
+      responses: [consensusResponse],
+    }).pipe(
+      new QueryObjectiveAIConsensusOutputParser({
+        parser: new QueryObjectiveAIJsonObjectOutputParser(),
+      })
+    );
+    const outputs = await chain.invoke("question");
+    expect(outputs).toHaveLength(2);
+    expect(outputs[0].output).toEqual({ a: 1, b: 2 });
+    expect(outputs[0].confidence).toBeCloseTo(0.55);
+    expect(outputs[1]).toEqual({ confidence: 0.45, output: { a: 2, b: 2 } });
+  });
+
+  test("merges with a custom equality", async () => {
+    const chain = new FakeQueryObjectiveAI({
+      responses: [consensusResponse],
+    }).pipe(
+      new QueryObjectiveAIConsensusOutputParser({
+        parser: new QueryObjectiveAIJsonObjectOutputParser(),
+        equals: (x, y) => x.b === y.b,
+      })
+    );
+    const outputs = await chain.invoke("question");
+    expect(outputs).toHaveLength(1);
+    expect(outputs[0].confidence).toBeCloseTo(1);
+  });
+
+  test("calibrates the merged confidences", async () => {
+    const chain = new FakeQueryObjectiveAI({
+      responses: [consensusResponse],
+    }).pipe(
+      new QueryObjectiveAIConsensusOutputParser({
+        parser: new QueryObjectiveAIJsonObjectOutputParser(),
+        calibrator: { calibrate: (confidence) => confidence / 2 },
+      })
+    );
+    const outputs = await chain.invoke("question");
+    expect(outputs[0].confidence).toBeCloseTo(0.275);
+  });
+
+  test("calibrates once, with its own calibrator over that of its parser", async () => {
+    const chain = new FakeQueryObjectiveAI({
+      responses: [consensusResponse],
+    }).pipe(
+      new QueryObjectiveAIConsensusOutputParser({
+        parser: new QueryObjectiveAIJsonObjectOutputParser({
+          calibrator: { calibrate: (confidence) => confidence / 2 },
+        }),
+        calibrator: { calibrate: (confidence) => confidence ** 2 },
+      })
+    );
+    const outputs = await chain.invoke("question");
+    expect(outputs.map(({ confidence }) => confidence)).toEqual([
+      expect.closeTo(0.55 ** 2),
+      expect.closeTo(0.45 ** 2),
+    ]);
+  });
+
+  test("calibrates the merged confidences and failures once with the calibrator of its parser", async () => {
+    const chain = new FakeQueryObjectiveAI({
+      responses: [
+        {
+          choices: [
+            ...consensusResponse.choices.slice(0, 2),
+            { content: "not json", confidence: 0.45 },
+          ],
+        },
+      ],
+    }).pipe(
+      new QueryObjectiveAIConsensusOutputParser({
+        parser: new QueryObjectiveAIJsonObjectOutputParser({
+          failure_policy: "report-all",
+          calibrator: { calibrate: (confidence) => confidence / 2 },
+        }),
+      })
+    );
+    const outputs = await chain.invoke("question");
+    expect(outputs.map(({ confidence }) => confidence)).toEqual([
+      expect.closeTo(0.275),
+      expect.closeTo(0.225),
+    ]);
+    expect("error" in outputs[1]).toBe(true);
+  });
+});
+
+describe("structuralEqual", () => {
+  test("ignores key order and undefined values", () => {
+    expect(structuralEqual({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] })).toBe(
+      true
+    );
+    expect(structuralEqual({ a: 1, b: undefined }, { a: 1 })).toBe(true);
+    expect(structuralEqual([1, 2], [2, 1])).toBe(false);
+    expect(structuralEqual({ a: 1 }, { a: "1" })).toBe(false);
+  });
+});
+
+describe("tallyQueryObjectiveAIVotes", () => {
+  test("shares the confidence of the outputs between their votes", () => {
+    const distribution = tallyQueryObjectiveAIVotes(
+      ["a", "b", "c"],
+      [
+        { confidence: 0.3, output: ["a", "b"] },
+        { confidence: 0.1, output: ["b", "other"] },
+      ],
+      (output) => output
+    );
+    expect(distribution.a).toBeCloseTo(0.75);
+    expect(distribution.b).toBeCloseTo(1);
+    expect(distribution.c).toBe(0);
+    expect(distribution).not.toHaveProperty("other");
+    expect(topQueryObjectiveAIVote(distribution)).toBe("b");
+  });
+
+  test("has no top vote without outputs", () => {
+    const distribution = tallyQueryObjectiveAIVotes(["a"], [], () => []);
+    expect(distribution).toEqual({ a: 0 });
+    expect(topQueryObjectiveAIVote(distribution)).toBeUndefined();
+  });
+});
+
+describe("format instructions", () => {
+  test("leave text unconstrained", () => {
+    const parser = new QueryObjectiveAITextOutputParser();
+    expect(parser.getFormatInstructions()).toBe("");
+    expect(parser.getResponseFormat()).toBeUndefined();
+  });
+
+  test("ask for a JSON object", () => {
+    const parser = new QueryObjectiveAIJsonObjectOutputParser();
+    expect(parser.getFormatInstructions()).toContain("JSON object");
+    expect(parser.getResponseFormat()).toEqual({ type: "json_object" });
+  });
+
+  test("ask for JSON adhering to the schema", () => {
+    const parser = new QueryObjectiveAIJsonSchemaOutputParser(
+      z.object({ answer: z.string() }),
+      { name: "answer", description: "The answer.", strict: true }
+    );
+    expect(parser.getFormatInstructions()).toContain(
+      JSON.stringify(parser.json_schema)
+    );
+    expect(parser.json_schema).toMatchObject({
+      type: "object",
+      properties: { answer: { type: "string" } },
+      required: ["answer"],
+    });
+    expect(parser.getResponseFormat()).toEqual({
+      type: "json_schema",
+      json_schema: {
+        name: "answer",
+        description: "The answer.",
+        schema: parser.json_schema,
+        strict: true,
+      },
+    });
+  });
+
+  test("are those of the parser of a consensus", () => {
+    const parser = new QueryObjectiveAIJsonObjectOutputParser();
+    const consensus = new QueryObjectiveAIConsensusOutputParser({ parser });
+    expect(consensus.getFormatInstructions()).toBe(
+      parser.getFormatInstructions()
+    );
+    expect(consensus.getResponseFormat()).toEqual({ type: "json_object" });
+  });
+});
+
+describe("serialization", () => {
+  test("loads a text parser with its failure policy", async () => {
+    const loaded = await load<QueryObjectiveAITextOutputParser<"best-valid">>(
+      JSON.stringify(
+        new QueryObjectiveAITextOutputParser({ failure_policy: "best-valid" })
+      ),
+      { importMap }
+    );
+    expect(loaded).toBeInstanceOf(QueryObjectiveAITextOutputParser);
+    expect(loaded.failure_policy).toBe("best-valid");
+  });
+
+  test("loads a JSON schema parser, which validates as before", async () => {
+    const parser = new QueryObjectiveAIJsonSchemaOutputParser(
+      z.object({ answer: z.string() }),
+      { failure_policy: "best-valid" }
+    );
+    const loaded = await load<typeof parser>(JSON.stringify(parser), {
+      importMap,
+    });
+    expect(loaded).toBeInstanceOf(QueryObjectiveAIJsonSchemaOutputParser);
+    expect(loaded.json_schema).toEqual(parser.json_schema);
+    const outputs = await new FakeQueryObjectiveAI({ responses: [response] })
+      .pipe(loaded)
+      .invoke("question");
+    expect(outputs.map(({ output }) => output)).toEqual([
+      { answer: "yes" },
+      { answer: "no" },
+    ]);
+  });
+
+  test("loads a consensus parser with its parser", async () => {
+    const loaded = await load<
+      QueryObjectiveAIConsensusOutputParser<Record<string, unknown>>
+    >(
+      JSON.stringify(
+        new QueryObjectiveAIConsensusOutputParser({
+          parser: new QueryObjectiveAIJsonObjectOutputParser(),
+        })
+      ),
+      { importMap }
+    );
+    expect(loaded).toBeInstanceOf(QueryObjectiveAIConsensusOutputParser);
+    expect(loaded.parser).toBeInstanceOf(
+      QueryObjectiveAIJsonObjectOutputParser
+    );
+  });
+
+  test("does not serialize functions", () => {
+    const custom = new QueryObjectiveAICustomOutputParser(async (text) =>
+      text.trim()
+    );
+    expect(JSON.parse(JSON.stringify(custom)).type).toBe("not_implemented");
+    const consensus = new QueryObjectiveAIConsensusOutputParser({
+      parser: new QueryObjectiveAIJsonObjectOutputParser(),
+      equals: () => true,
+    });
+    expect(JSON.parse(JSON.stringify(consensus)).type).toBe("not_implemented");
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, expect, test } from "@jest/globals";
+import { QueryObjectiveAI } from "../chat_models.js";
+import { ObjectiveAIError } from "../errors.js";
+import {
+  QueryObjectiveAIPreset,
+  getQueryObjectiveAIPreset,
+  listQueryObjectiveAIPresets,
+  registerQueryObjectiveAIPreset,
+} from "../presets.js";
+import {
+  FakeQueryObjectiveAI,
+  FakeQueryObjectiveAIParams,
+} from "../testing.js";
+
+describe("QueryObjectiveAI presets", () => {
+  test("constructs a model from a registered preset", () => {
+    const preset: QueryObjectiveAIPreset = {
+      description: "test ensemble",
+      chat_completion_create_params: { model: "ensemble-id", temperature: 0 },
+    };
+    registerQueryObjectiveAIPreset("test-constructs", preset);
+    // later changes do not change the registered preset
+    preset.chat_completion_create_params.model = "changed";
+    expect(listQueryObjectiveAIPresets()).toContain("test-constructs");
+    expect(
+      getQueryObjectiveAIPreset("test-constructs").chat_completion_create_params
+        .model
+    ).toBe("ensemble-id");
+
+    const model = new QueryObjectiveAI({
+      preset: "test-constructs",
+      chat_completion_create_params: { temperature: 1 },
+      openai: { apiKey: "sk-test" },
+    });
+    expect(model.chat_completion_create_params).toEqual({
+      model: "ensemble-id",
+      temperature: 1,
+    });
+  });
+
+  test.each([
+    ["test-no-model", { chat_completion_create_params: { model: " " } }],
+    [
+      "test-per-call",
+      { chat_completion_create_params: { model: "m", stream: true } },
+    ],
+    [" test-whitespace", { chat_completion_create_params: { model: "m" } }],
+  ])("refuses the invalid preset %j", (name, preset) => {
+    expect(() =>
+      registerQueryObjectiveAIPreset(name, preset as QueryObjectiveAIPreset)
+    ).toThrow(ObjectiveAIError);
+    expect(listQueryObjectiveAIPresets()).not.toContain(name);
+  });
+
+  test("refuses a preset registered twice, and an unknown preset", () => {
+    registerQueryObjectiveAIPreset("test-twice", {
+      chat_completion_create_params: { model: "m" },
+    });
+    expect(() =>
+      registerQueryObjectiveAIPreset("test-twice", {
+        chat_completion_create_params: { model: "m" },
+      })
+    ).toThrow(ObjectiveAIError);
+    expect(() => new QueryObjectiveAI({ preset: "test-unknown" })).toThrow(
+      /Unknown QueryObjectiveAI preset "test-unknown"/
+    );
+  });
+
+  test("chooses the model of a FakeQueryObjectiveAI as a real one would", () => {
+    registerQueryObjectiveAIPreset("test-fake", {
+      chat_completion_create_params: { model: "preset-model" },
+    });
+    const responses = [{ choices: [{ content: "answer", confidence: 1 }] }];
+    const model = (fields: Partial<FakeQueryObjectiveAIParams>) =>
+      new FakeQueryObjectiveAI({ responses, ...fields })
+        .chat_completion_create_params.model;
+    expect(model({})).toBe("fake");
+    expect(model({ preset: "test-fake" })).toBe("preset-model");
+    expect(
+      model({ chat_completion_create_params: { model: "params-model" } })
+    ).toBe("params-model");
+    expect(model({ model: "model", preset: "test-fake" })).toBe("model");
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, expect, test } from "@jest/globals";
+import {
+  QueryObjectiveAIRanker,
+  QueryObjectiveAIRankerComparison,
+} from "../ranker.js";
+import { FakeQueryObjectiveAI } from "../testing.js";
+
+function comparison(
+  candidates: number[],
+  probabilities: number[]
+): QueryObjectiveAIRankerComparison {
+  return { candidates, probabilities, outputs: [] };
+}
+
+describe("QueryObjectiveAIRanker", () => {
+  const ranker = new QueryObjectiveAIRanker({
+    model: new FakeQueryObjectiveAI({ responses: [] }),
+  });
+
+  test("scores candidates with Bradley-Terry strengths", () => {
+    const ranking = ranker.rank(
+      ["a", "b", "c"],
+      [
+        comparison([0, 1], [0.9, 0.1]),
+        comparison([1, 2], [0.8, 0.2]),
+        comparison([2, 0], [0.3, 0.7]),
+      ]
+    );
+    expect(ranking.map(({ candidate }) => candidate)).toEqual(["a", "b", "c"]);
+    // scores are centered on 0
+    expect(ranking.reduce((sum, { score }) => sum + score, 0)).toBeCloseTo(0);
+    for (const { uncertainty, comparisons } of ranking) {
+      expect(Number.isFinite(uncertainty)).toBe(true);
+      expect(comparisons).toBe(2);
+    }
+  });
+
+  test("keeps the scores of unbeaten candidates finite with the prior", () => {
+    const ranking = ranker.rank(["a", "b"], [comparison([0, 1], [1, 0])]);
+    expect(ranking[0].candidate).toBe("a");
+    expect(Number.isFinite(ranking[0].score)).toBe(true);
+    expect(ranking[0].score).toBeGreaterThan(0);
+  });
+
+  test("gives equal scores to candidates with equal records", () => {
+    const ranking = ranker.rank(
+      ["a", "b", "c"],
+      [comparison([0, 1], [0.5, 0.5])]
+    );
+    for (const { score } of ranking) {
+      expect(score).toBeCloseTo(0);
+    }
+    // ties keep the input order, and uncompared candidates are the least
+    // certain
+    expect(ranking.map(({ index }) => index)).toEqual([0, 1, 2]);
+    expect(ranking[2].uncertainty).toBeGreaterThan(ranking[0].uncertainty);
+  });
+
+  test("schedules rounds without rematches, rotating the candidates", () => {
+    expect(ranker.schedule([0, 1, 2, 3], 1, new Set(["0,1", "2,3"]))).toEqual([
+      [2, 0],
+      [1, 3],
+    ]);
+    // a short last group is filled with the candidates before it
+    expect(ranker.schedule([0, 1, 2])).toEqual([
+      [0, 1],
+      [1, 2],
+    ]);
+  });
+
+  test("compares the candidates with Queries, up to max_comparisons", async () => {
+    const model = new FakeQueryObjectiveAI({
+      responses: [
+        {
+          choices: [
+            { content: '{"reasoning": "", "best": "1"}', confidence: 0.75 },
+            { content: '{"reasoning": "", "best": "2"}', confidence: 0.25 },
+          ],
+        },
+      ],
+    });
+    const result = await new QueryObjectiveAIRanker({
+      model,
+      max_comparisons: 3,
+    }).invoke({ input: "query", candidates: ["a", "b", "c", "d"] });
+    expect(result.comparisons).toHaveLength(3);
+    expect(model.requests).toHaveLength(3);
+    expect(result.comparisons[0].probabilities).toEqual([0.75, 0.25]);
+    expect(result.ranking).toHaveLength(4);
+  });
+});